@@ -0,0 +1,104 @@
+import type { Ancestor, HorseData, HorseStats } from "./horseStats";
+import { blendColors } from "./utils/colorUtils";
+import type { SeededRandom } from "./utils/random";
+
+/**
+ * Breeding foals from two horses.
+ * Each stat is a random mix of the parents' values plus a small mutation, the
+ * colour is a blend of both coats and the hat, face, running style and
+ * preferred going each come from one parent or the other.
+ */
+
+const STAT_MUTATION = 0.08; // Largest change a mutation makes to a stat
+const BASE_SPEED_MUTATION = 0.3; // Largest change to the inherited base speed
+const PEDIGREE_GENERATIONS = 3; // Parents, grandparents and great-grandparents
+
+/**
+ * Breed a foal
+ * @param sire - Father
+ * @param dam - Mother
+ * @param random - Breeding stream for this pairing
+ * @param name - Name for the foal
+ */
+export function breedFoal(
+  sire: HorseData,
+  dam: HorseData,
+  random: SeededRandom,
+  name: string,
+): HorseData {
+  const pick = <T>(fromSire: T, fromDam: T): T =>
+    random.next() < 0.5 ? fromSire : fromDam;
+
+  return {
+    id: `horse-foal-${random.int(0xffffffff).toString(16)}`,
+    name,
+    stats: inheritStats(sire.stats, dam.stats, random),
+    baseSpeed: clamp(
+      round(
+        (sire.baseSpeed + dam.baseSpeed) / 2 +
+          random.range(-BASE_SPEED_MUTATION, BASE_SPEED_MUTATION),
+      ),
+      6,
+      10,
+    ),
+    color: blendColors(sire.color, dam.color, random.range(0.3, 0.7)),
+    hat: pick(sire.hat, dam.hat),
+    face: pick(sire.face, dam.face),
+    runningStyle: pick(sire.runningStyle, dam.runningStyle),
+    preferredGoing: pick(sire.preferredGoing, dam.preferredGoing),
+    pedigree: {
+      sire: toAncestor(sire, PEDIGREE_GENERATIONS - 1),
+      dam: toAncestor(dam, PEDIGREE_GENERATIONS - 1),
+    },
+  };
+}
+
+function inheritStats(
+  sire: HorseStats,
+  dam: HorseStats,
+  random: SeededRandom,
+): HorseStats {
+  const inherit = (fromSire: number, fromDam: number) => {
+    const mixed = fromSire + (fromDam - fromSire) * random.next();
+    const mutation = random.range(-STAT_MUTATION, STAT_MUTATION);
+    return clamp(Math.round((mixed + mutation) * 1000) / 1000, 0, 1);
+  };
+
+  return {
+    speed: inherit(sire.speed, dam.speed),
+    stamina: inherit(sire.stamina, dam.stamina),
+    acceleration: inherit(sire.acceleration, dam.acceleration),
+  };
+}
+
+/**
+ * Horse as an ancestor, keeping its own parents up to a number of generations back
+ */
+function toAncestor(horse: HorseData, generations: number): Ancestor {
+  const trim = (ancestor: Ancestor, depth: number): Ancestor => ({
+    id: ancestor.id,
+    name: ancestor.name,
+    color: ancestor.color,
+    ...(depth > 0 && ancestor.sire && { sire: trim(ancestor.sire, depth - 1) }),
+    ...(depth > 0 && ancestor.dam && { dam: trim(ancestor.dam, depth - 1) }),
+  });
+
+  return trim(
+    {
+      id: horse.id,
+      name: horse.name,
+      color: horse.color,
+      sire: horse.pedigree?.sire,
+      dam: horse.pedigree?.dam,
+    },
+    generations,
+  );
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -20,6 +20,7 @@ export class CameraController {
   private currentMode: CameraMode = CameraMode.ORBITAL;
   private selectedHorseIndex: number = 0;
   private lockedHorseName: string | null = null; // Track specific horse by name when racing
+  private finishLineProgress: number = 0; // Race progress at the finish line
 
   // Dynamic camera positions based on track config
   private readonly ORBITAL_POSITION: THREE.Vector3;
@@ -246,8 +247,11 @@ export class CameraController {
     // Hide finish banner from this camera view
     this.camera.layers.disable(1);
 
-    // Get the finish line position (at progress 0, which is at the start of bottom straight)
-    const finishLinePos = getTrackPosition(0, this.trackWidth / 2); // Center of track
+    // Get the finish line position (at the end of the race distance, on the bottom straight)
+    const finishLinePos = getTrackPosition(
+      this.finishLineProgress,
+      this.trackWidth / 2,
+    ); // Center of track
 
     // Position camera to the side (along Z axis) for proper side-on view of finish line
     const cameraPosition = new THREE.Vector3(
@@ -316,4 +320,11 @@ export class CameraController {
   public getSelectedHorseIndex(): number {
     return this.selectedHorseIndex;
   }
+
+  /**
+   * Set where the finish line sits in race progress (the race distance)
+   */
+  public setFinishLineProgress(progress: number): void {
+    this.finishLineProgress = progress;
+  }
 }
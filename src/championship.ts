@@ -0,0 +1,196 @@
+import {
+  type ChampionshipData,
+  type ChampionshipRace,
+  ChampionshipSchema,
+} from "./championshipSchema";
+import type { HorseData } from "./horseStats";
+import type { LeaderboardStanding } from "./raceSimulation";
+import { toCSV } from "./utils/csv";
+
+/**
+ * Season championship.
+ * While it's active every finished race is recorded, and each finishing
+ * position earns points from the points table. Standings are worked out from
+ * the recorded races, so changing the points table rescores the whole season.
+ * Kept in localStorage so a season carries on between sessions.
+ */
+
+export const DEFAULT_CHAMPIONSHIP_POINTS = [25, 18, 15, 12, 10, 8, 6, 4];
+const CHAMPIONSHIP_STORAGE_KEY = "reindeer-racing-championship";
+
+export interface ChampionshipStanding {
+  horseId: string;
+  name: string;
+  color: number;
+  points: number;
+  races: number;
+  wins: number;
+  podiums: number; // Top 3 finishes
+  averageFinish: number;
+}
+
+export class Championship {
+  private data: ChampionshipData;
+
+  constructor() {
+    this.data = this.load();
+  }
+
+  private load(): ChampionshipData {
+    const empty: ChampionshipData = {
+      version: "1.0",
+      active: false,
+      points: DEFAULT_CHAMPIONSHIP_POINTS,
+      races: [],
+    };
+
+    const stored = localStorage.getItem(CHAMPIONSHIP_STORAGE_KEY);
+    if (!stored) return empty;
+
+    try {
+      const result = ChampionshipSchema.safeParse(JSON.parse(stored));
+      if (result.success) return result.data;
+      console.warn("Ignoring saved championship:", result.error.issues);
+    } catch {
+      console.warn("Ignoring unreadable saved championship");
+    }
+    return empty;
+  }
+
+  private save(): void {
+    localStorage.setItem(CHAMPIONSHIP_STORAGE_KEY, JSON.stringify(this.data));
+  }
+
+  public isActive(): boolean {
+    return this.data.active;
+  }
+
+  public setActive(active: boolean): void {
+    this.data.active = active;
+    this.save();
+  }
+
+  /**
+   * Points for 1st, 2nd, ... (positions past the end of the table score nothing)
+   */
+  public getPointsTable(): number[] {
+    return this.data.points;
+  }
+
+  public setPointsTable(points: number[]): void {
+    this.data.points = points;
+    this.save();
+  }
+
+  /**
+   * Add a finished race to the season, unless the season already has it
+   * @param horses - Field, for the names and colours shown in the standings
+   * @param configHash - Hash of the race file (see hashRaceConfig)
+   * @returns false if this race setup is already in the season
+   */
+  public recordRace(
+    standings: LeaderboardStanding[],
+    horses: HorseData[],
+    raceSeed: number,
+    configHash: string,
+  ): boolean {
+    if (this.data.races.some((race) => race.configHash === configHash)) {
+      return false;
+    }
+
+    const race: ChampionshipRace = {
+      date: Date.now(),
+      raceSeed,
+      configHash,
+      results: standings.map((standing) => ({
+        horseId: standing.horseId,
+        name: standing.name,
+        color:
+          horses.find((horse) => horse.id === standing.horseId)?.color ??
+          0xffffff,
+        position: standing.position,
+      })),
+    };
+    this.data.races.push(race);
+    this.save();
+    return true;
+  }
+
+  public getRaceCount(): number {
+    return this.data.races.length;
+  }
+
+  /**
+   * Standings for the season: most points first, then most wins, then best average finish
+   */
+  public getStandings(): ChampionshipStanding[] {
+    const byHorse = new Map<
+      string,
+      ChampionshipStanding & { totalFinish: number }
+    >();
+
+    this.data.races.forEach((race) => {
+      race.results.forEach((result) => {
+        const standing = byHorse.get(result.horseId) ?? {
+          horseId: result.horseId,
+          name: result.name,
+          color: result.color,
+          points: 0,
+          races: 0,
+          wins: 0,
+          podiums: 0,
+          averageFinish: 0,
+          totalFinish: 0,
+        };
+
+        // Latest name and colour win if a horse was edited mid-season
+        standing.name = result.name;
+        standing.color = result.color;
+        standing.points += this.data.points[result.position - 1] ?? 0;
+        standing.races++;
+        if (result.position === 1) standing.wins++;
+        if (result.position <= 3) standing.podiums++;
+        standing.totalFinish += result.position;
+        byHorse.set(result.horseId, standing);
+      });
+    });
+
+    return [...byHorse.values()]
+      .map(({ totalFinish, ...standing }) => ({
+        ...standing,
+        averageFinish: totalFinish / standing.races,
+      }))
+      .sort(
+        (a, b) =>
+          b.points - a.points ||
+          b.wins - a.wins ||
+          a.averageFinish - b.averageFinish,
+      );
+  }
+
+  /**
+   * Standings table as CSV
+   */
+  public toCSV(): string {
+    return toCSV([
+      ["Rank", "Horse", "Points", "Races", "Wins", "Podiums", "Average Finish"],
+      ...this.getStandings().map((standing, index) => [
+        index + 1,
+        standing.name,
+        standing.points,
+        standing.races,
+        standing.wins,
+        standing.podiums,
+        standing.averageFinish.toFixed(2),
+      ]),
+    ]);
+  }
+
+  /**
+   * Start a new season, keeping the points table
+   */
+  public reset(): void {
+    this.data.races = [];
+    this.save();
+  }
+}
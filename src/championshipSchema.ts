@@ -0,0 +1,30 @@
+import { z } from "zod";
+
+/**
+ * Zod schema for validating the saved championship
+ */
+
+const ChampionshipResultSchema = z.object({
+  horseId: z.string(),
+  name: z.string(),
+  color: z.number().int().min(0).max(0xffffff),
+  position: z.number().int().positive(),
+});
+
+const ChampionshipRaceSchema = z.object({
+  date: z.number().int(), // When the race finished (ms since epoch)
+  raceSeed: z.number().int(),
+  configHash: z.string().optional(), // Hash of the race file (see hashRaceConfig), missing in older seasons
+  results: z.array(ChampionshipResultSchema),
+});
+
+export const ChampionshipSchema = z.object({
+  version: z.literal("1.0"),
+  active: z.boolean(), // Whether finished races are being recorded
+  points: z.array(z.number().min(0)), // Points for 1st, 2nd, ...
+  races: z.array(ChampionshipRaceSchema),
+});
+
+export type ChampionshipResult = z.infer<typeof ChampionshipResultSchema>;
+export type ChampionshipRace = z.infer<typeof ChampionshipRaceSchema>;
+export type ChampionshipData = z.infer<typeof ChampionshipSchema>;
@@ -1 +1,4 @@
 export const FONT = "Arial";
+
+// Most horses that can run in one race
+export const MAX_FIELD_SIZE = 20;
@@ -0,0 +1,39 @@
+import { DEFAULT_DRAFTING_PRESET, DraftingPreset } from "./drafting";
+
+/**
+ * Default drafting strength for new races, picked in the debug overlay.
+ * Each race keeps its own strength (see RaceConfig.drafting).
+ */
+
+const DRAFTING_STORAGE_KEY = "reindeer-racing-drafting";
+
+const PRESET_ORDER: DraftingPreset[] = [
+  DraftingPreset.OFF,
+  DraftingPreset.LIGHT,
+  DraftingPreset.NORMAL,
+  DraftingPreset.STRONG,
+];
+
+/**
+ * Get current drafting preset from localStorage or default to normal
+ */
+export function getDraftingPreset(): DraftingPreset {
+  const stored = localStorage.getItem(DRAFTING_STORAGE_KEY);
+  const preset = PRESET_ORDER.find((p) => p === stored);
+  return preset ?? DEFAULT_DRAFTING_PRESET;
+}
+
+/**
+ * Save drafting preset to localStorage
+ */
+export function saveDraftingPreset(preset: DraftingPreset): void {
+  localStorage.setItem(DRAFTING_STORAGE_KEY, preset);
+}
+
+/**
+ * Next preset when cycling through them (wraps back to off)
+ */
+export function getNextDraftingPreset(preset: DraftingPreset): DraftingPreset {
+  const index = PRESET_ORDER.indexOf(preset);
+  return PRESET_ORDER[(index + 1) % PRESET_ORDER.length];
+}
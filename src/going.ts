@@ -0,0 +1,100 @@
+import { createRandom, RandomStream } from "./utils/random";
+
+/**
+ * Track going (surface condition).
+ * The going changes how fast every horse can run and how much energy it
+ * burns, and each horse runs best on the going it prefers.
+ */
+
+export type Going = "firm" | "good" | "soft" | "heavy" | "snow";
+
+// Ordered from fastest to slowest ground
+export const GOINGS: Going[] = ["firm", "good", "soft", "heavy", "snow"];
+
+export const DEFAULT_GOING: Going = "good";
+
+export const GOING_LABELS: Record<Going, string> = {
+  firm: "Firm",
+  good: "Good",
+  soft: "Soft",
+  heavy: "Heavy",
+  snow: "Snow",
+};
+
+interface GoingEffect {
+  speedFactor: number; // Multiplier on every horse's speed
+  energyFactor: number; // Multiplier on energy used per unit of distance
+}
+
+const GOING_EFFECTS: Record<Going, GoingEffect> = {
+  firm: { speedFactor: 1.03, energyFactor: 0.95 },
+  good: { speedFactor: 1.0, energyFactor: 1.0 },
+  soft: { speedFactor: 0.96, energyFactor: 1.1 },
+  heavy: { speedFactor: 0.91, energyFactor: 1.25 },
+  snow: { speedFactor: 0.88, energyFactor: 1.3 },
+};
+
+// Speed multiplier by how many steps the going is from a horse's preference
+const SUITABILITY_FACTORS = [1.03, 1.0, 0.98, 0.96];
+
+export type GoingSuitability = "suited" | "neutral" | "unsuited";
+
+export function getGoingEffect(going: Going): GoingEffect {
+  return GOING_EFFECTS[going];
+}
+
+/**
+ * How many steps apart two goings are (firm -> good -> soft -> heavy -> snow)
+ */
+function getGoingDistance(a: Going, b: Going): number {
+  return Math.abs(GOINGS.indexOf(a) - GOINGS.indexOf(b));
+}
+
+/**
+ * Speed multiplier for a horse running on a going.
+ * Horses without a preference run the same on anything.
+ */
+export function getGoingSuitabilityFactor(
+  preferred: Going | undefined,
+  going: Going,
+): number {
+  if (!preferred) return 1;
+  const distance = Math.min(
+    getGoingDistance(preferred, going),
+    SUITABILITY_FACTORS.length - 1,
+  );
+  return SUITABILITY_FACTORS[distance];
+}
+
+/**
+ * Summarise how well a going suits a horse (for form guides)
+ */
+export function getGoingSuitability(
+  preferred: Going | undefined,
+  going: Going,
+): GoingSuitability {
+  const factor = getGoingSuitabilityFactor(preferred, going);
+  if (factor > 1) return "suited";
+  if (factor < 1) return "unsuited";
+  return "neutral";
+}
+
+/**
+ * Draw the race going from the seed. Snow is only drawn when allowed (Christmas theme).
+ */
+export function drawGoing(seed: number, allowSnow: boolean): Going {
+  const options = allowSnow ? GOINGS : GOINGS.filter((g) => g !== "snow");
+  return createRandom(seed, RandomStream.GOING).pick(options);
+}
+
+/**
+ * Draw a horse's preferred going from the race seed's field stream
+ */
+export function generatePreferredGoing(
+  seed: number,
+  horseIndex: number,
+): Going {
+  return createRandom(seed, RandomStream.FIELD)
+    .fork(`going-${horseIndex}`)
+    .pick(GOINGS);
+}
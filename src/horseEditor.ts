@@ -1,45 +1,80 @@
+import { breedFoal } from "./breeding";
+import { MAX_FIELD_SIZE } from "./constants";
+import { DEFAULT_DRAFTING_PRESET, type DraftingPreset } from "./drafting";
+import { getDraftingPreset } from "./draftingConfig";
+import {
+  DEFAULT_GOING,
+  drawGoing,
+  GOING_LABELS,
+  type Going,
+  generatePreferredGoing,
+} from "./going";
 import {
   containerStyles,
   type EditorFormData,
   type HorseItemData,
   renderEditorForm,
   renderEmptyHorseList,
+  renderEmptyStable,
   renderHorseItem,
   renderMainTemplate,
+  renderStableItem,
 } from "./horseEditorTemplates";
-import type { HorseData, HorseStats } from "./horseStats";
+import type {
+  FaceType,
+  HatType,
+  HorseData,
+  HorseStats,
+  RunningStyle,
+} from "./horseStats";
 import {
   calculateRaceTime,
   calculateSpeedCurve,
+  DEFAULT_RUNNING_STYLE,
   generateBaseSpeed,
   generateHorseName,
   generateRandomStats,
 } from "./horseStats";
-import { type RaceConfig, validateRaceConfig } from "./raceConfigSchema";
+import type { HorseOdds } from "./oddsCalculator";
+import {
+  type RaceConfig,
+  type RaceDistance,
+  validateRaceConfig,
+} from "./raceConfigSchema";
+import {
+  createRaceCourse,
+  DEFAULT_DEAD_HEAT_TOLERANCE,
+  DEFAULT_RACE_DISTANCE,
+} from "./raceSimulation";
 import { SpeedGraph } from "./speedGraph";
+import { getBestTime, type Stable } from "./stable";
+import { getCurrentTheme } from "./themeConfig";
+import { createRandom, RandomStream, type SeededRandom } from "./utils/random";
+import {
+  DEFAULT_WEATHER,
+  drawWeather,
+  WEATHER_LABELS,
+  type Weather,
+} from "./weather";
+
+const hats: HatType[] = [
+  "horse-ears",
+  "reindeer-antlers",
+  "top-hat",
+  "crown",
+  "propeller-hat",
+];
 
-const hats: (
-  | "horse-ears"
-  | "reindeer-antlers"
-  | "top-hat"
-  | "crown"
-  | "propeller-hat"
-)[] = [
-    "horse-ears",
-    "reindeer-antlers",
-    "top-hat",
-    "crown",
-    "propeller-hat",
-  ];
-
-const faces: (
-  | "happy"
-  | "innocent"
-  | "red-nose"
-  | "angry"
-  | "shocked"
-  | "glasses"
-)[] = ["happy", "innocent", "red-nose", "angry", "shocked", "glasses"];
+const faces: FaceType[] = [
+  "happy",
+  "innocent",
+  "red-nose",
+  "angry",
+  "shocked",
+  "glasses",
+];
+
+const DEFAULT_RANDOM_FIELD_SIZE = 8;
 
 const colors = [
   0xff6b6b, // Red
@@ -75,13 +110,50 @@ const colors = [
   0xe17055, // Coral
 ];
 
+/**
+ * Generate a random horse from a field stream
+ * @param horseIndex - Position in the field, for the base speed and preferred going
+ * @param getName - Called between drawing the id and the stats, so fields rebuild the same
+ */
+function generateRandomHorse(
+  seed: number,
+  horseIndex: number,
+  random: SeededRandom,
+  getName: () => string,
+): HorseData {
+  return {
+    id: `horse-${seed}-${random.int(0xffffffff).toString(16)}`,
+    name: getName(),
+    stats: generateRandomStats(random),
+    baseSpeed: generateBaseSpeed(seed, horseIndex),
+    color: random.pick(colors),
+    hat: random.pick(hats),
+    face: random.pick(faces),
+    runningStyle: DEFAULT_RUNNING_STYLE,
+    preferredGoing: generatePreferredGoing(seed, horseIndex),
+  };
+}
+
 export class HorseEditor {
   private container: HTMLDivElement;
   private horses: HorseData[] = [];
+  private stableHorseIds = new Set<string>(); // Field horses added from or saved to the stable, kept in step with it
   private raceSeed: number = 0;
+  private fieldRandom: SeededRandom; // Field generation stream for the current seed
   private onHorsesChanged: ((horses: HorseData[]) => void) | null = null;
   private speedGraph: SpeedGraph;
-  private trackLength: number;
+  private stable: Stable;
+  private lapLength: number;
+  private raceDistance: RaceDistance = DEFAULT_RACE_DISTANCE;
+  private going: Going | null = null; // null = drawn from the race seed
+  private weather: Weather | null = null; // null = drawn from the race seed
+  private drafting: DraftingPreset = getDraftingPreset(); // New races start on the debug overlay default
+  private deadHeatTolerance: number = DEFAULT_DEAD_HEAT_TOLERANCE;
+  private odds = new Map<string, HorseOdds>(); // Latest odds for the field, by horse id
+  private importedParents: HorseData[] = []; // Horses loaded from a race file to breed from
+  private sireId: string | null = null;
+  private damId: string | null = null;
+  private randomFieldSize: number = DEFAULT_RANDOM_FIELD_SIZE; // Horses "Randomize Full Race" creates
   private isOpen: boolean = false;
   private editingHorseId: string | null = null;
   private nameData: {
@@ -89,9 +161,11 @@ export class HorseEditor {
     christmasItems: string[];
   } | null = null;
 
-  constructor(trackLength: number) {
-    this.trackLength = trackLength;
+  constructor(lapLength: number, stable: Stable) {
+    this.lapLength = lapLength;
+    this.stable = stable;
     this.raceSeed = this.generateRandomSeed();
+    this.fieldRandom = createRandom(this.raceSeed, RandomStream.FIELD);
     this.container = this.createUI();
     this.speedGraph = new SpeedGraph();
     document.body.appendChild(this.container);
@@ -107,27 +181,32 @@ export class HorseEditor {
     }
   }
 
-  private generateRandomName(): string {
+  private generateRandomName(
+    random: SeededRandom = this.fieldRandom,
+    horseIndex: number = this.horses.length,
+  ): string {
     if (!this.nameData) {
-      return generateHorseName(this.raceSeed); // Fallback to old method
+      return generateHorseName(horseIndex); // Fallback to old method
     }
 
-    const descriptive =
-      this.nameData.descriptiveWords[
-      Math.floor(Math.random() * this.nameData.descriptiveWords.length)
-      ];
-    const christmasItem =
-      this.nameData.christmasItems[
-      Math.floor(Math.random() * this.nameData.christmasItems.length)
-      ];
+    const descriptive = random.pick(this.nameData.descriptiveWords);
+    const christmasItem = random.pick(this.nameData.christmasItems);
 
     return `${descriptive} ${christmasItem}`;
   }
 
   private generateRandomSeed(): number {
+    // A brand new seed is the one place true randomness is wanted
     return Math.floor(Math.random() * 1000000);
   }
 
+  /**
+   * Point the field generation stream at the current seed
+   */
+  private resetFieldRandom(): void {
+    this.fieldRandom = createRandom(this.raceSeed, RandomStream.FIELD);
+  }
+
   private createUI(): HTMLDivElement {
     const container = document.createElement("div");
     container.style.cssText = containerStyles;
@@ -138,10 +217,41 @@ export class HorseEditor {
   }
 
   private updateUI(container: HTMLDivElement): void {
+    // Default the breeding picks to two different horses
+    const candidates = this.getBreedingCandidates();
+    const isCandidate = (id: string | null) =>
+      candidates.some((c) => c.horse.id === id);
+    if (!isCandidate(this.sireId)) {
+      this.sireId = candidates[0]?.horse.id ?? null;
+    }
+    if (!isCandidate(this.damId)) {
+      this.damId =
+        candidates.find((c) => c.horse.id !== this.sireId)?.horse.id ?? null;
+    }
+
     container.innerHTML = renderMainTemplate({
       raceSeed: this.raceSeed,
+      distanceUnit: this.raceDistance.unit,
+      distanceValue: this.raceDistance.value,
+      going: this.going ?? "seed",
+      seedGoingLabel: GOING_LABELS[this.getSeedGoing()],
+      weather: this.weather ?? "seed",
+      seedWeatherLabel: WEATHER_LABELS[this.getSeedWeather()],
+      drafting: this.drafting,
+      deadHeatTolerance: this.deadHeatTolerance,
       horseListHTML: this.renderHorseList(),
+      stableHTML: this.renderStable(),
+      stableCount: this.stable.getEntries().length,
+      breedingOptions: candidates.map(({ horse, source }) => ({
+        id: horse.id,
+        label: `${horse.name} (${source})`,
+      })),
+      sireId: this.sireId,
+      damId: this.damId,
+      importedParentsCount: this.importedParents.length,
       horsesCount: this.horses.length,
+      maxHorses: MAX_FIELD_SIZE,
+      randomFieldSize: this.randomFieldSize,
       editingHorseId: this.editingHorseId,
       editorFormHTML: this.renderEditorForm(),
     });
@@ -150,17 +260,12 @@ export class HorseEditor {
   }
 
   private generateHorse(): HorseData {
-    const horseIndex = Math.floor(Math.random() * 1000);
-
-    return {
-      id: `horse-${Date.now()}-${Math.random()}`,
-      name: this.generateRandomName(),
-      stats: generateRandomStats(),
-      baseSpeed: generateBaseSpeed(this.raceSeed, horseIndex),
-      color: this.generateHorseColor(horseIndex),
-      hat: hats[Math.floor(Math.random() * hats.length)],
-      face: faces[Math.floor(Math.random() * faces.length)],
-    };
+    return generateRandomHorse(
+      this.raceSeed,
+      this.horses.length,
+      this.fieldRandom,
+      () => this.generateRandomName(),
+    );
   }
 
   private renderHorseList(): string {
@@ -171,7 +276,11 @@ export class HorseEditor {
     return this.horses
       .map((horse) => {
         // Calculate estimated race time for this horse
-        const speedCurve = calculateSpeedCurve(horse, this.trackLength);
+        const speedCurve = calculateSpeedCurve(
+          horse,
+          this.getRaceLength(),
+          this.getGoing(),
+        );
         const raceTime = calculateRaceTime(speedCurve);
 
         const horseData: HorseItemData = {
@@ -182,7 +291,12 @@ export class HorseEditor {
           stamina: horse.stats.stamina,
           acceleration: horse.stats.acceleration,
           baseSpeed: horse.baseSpeed,
+          preferredGoing: horse.preferredGoing
+            ? GOING_LABELS[horse.preferredGoing]
+            : "Any",
           raceTime: raceTime,
+          odds: this.getOddsLabel(horse.id),
+          inStable: this.stable.has(horse.id),
         };
 
         return renderHorseItem(horseData);
@@ -190,6 +304,35 @@ export class HorseEditor {
       .join("");
   }
 
+  private renderStable(): string {
+    const entries = this.stable.getEntries();
+    if (entries.length === 0) {
+      return renderEmptyStable();
+    }
+
+    const raceLength = this.getRaceLength();
+    return entries
+      .map(({ horse, career, training }) =>
+        renderStableItem({
+          id: horse.id,
+          name: horse.name,
+          color: horse.color,
+          starts: career.starts,
+          wins: career.wins,
+          places: career.places,
+          earnings: career.earnings,
+          bestTime: getBestTime(career, raceLength),
+          fatigue: training.fatigue,
+          injuryWeeks: training.injuryWeeks,
+          canAdd:
+            this.horses.length < MAX_FIELD_SIZE &&
+            training.injuryWeeks === 0 &&
+            !this.horses.some((h) => h.id === horse.id),
+        }),
+      )
+      .join("");
+  }
+
   private renderEditorForm(): string {
     if (!this.editingHorseId) return "";
 
@@ -203,6 +346,8 @@ export class HorseEditor {
       acceleration: horse.stats.acceleration,
       hat: horse.hat,
       face: horse.face,
+      runningStyle: horse.runningStyle ?? DEFAULT_RUNNING_STYLE,
+      preferredGoing: horse.preferredGoing ?? "",
     };
 
     return renderEditorForm(formData);
@@ -216,6 +361,7 @@ export class HorseEditor {
         const newSeed = parseInt(seedInput.value, 10) || 0;
         if (newSeed !== this.raceSeed) {
           this.raceSeed = newSeed;
+          this.resetFieldRandom();
           this.regenerateAllBaseSpeeds();
         }
       });
@@ -226,17 +372,107 @@ export class HorseEditor {
     if (randomizeBtn) {
       randomizeBtn.addEventListener("click", () => {
         this.raceSeed = this.generateRandomSeed();
+        this.resetFieldRandom();
         this.regenerateAllBaseSpeeds();
         this.updateUI(this.container);
       });
     }
 
+    // Race distance inputs
+    const distanceValueInput = container.querySelector(
+      "#raceDistanceValue",
+    ) as HTMLInputElement;
+    const distanceUnitSelect = container.querySelector(
+      "#raceDistanceUnit",
+    ) as HTMLSelectElement;
+    if (distanceValueInput && distanceUnitSelect) {
+      distanceValueInput.addEventListener("change", () => {
+        const value = parseFloat(distanceValueInput.value);
+        this.setRaceDistance({ unit: this.raceDistance.unit, value });
+      });
+      distanceUnitSelect.addEventListener("change", () => {
+        // Convert the current distance so switching units keeps the race length
+        const unit = distanceUnitSelect.value === "laps" ? "laps" : "distance";
+        const raceLength = this.getRaceLength();
+        const value =
+          unit === "laps"
+            ? Math.max(1, Math.round(raceLength / this.lapLength))
+            : Math.round(raceLength);
+        this.setRaceDistance({ unit, value });
+      });
+    }
+
+    // Going select
+    const goingSelect = container.querySelector(
+      "#raceGoing",
+    ) as HTMLSelectElement;
+    if (goingSelect) {
+      goingSelect.addEventListener("change", () => {
+        this.going =
+          goingSelect.value === "seed" ? null : (goingSelect.value as Going);
+        this.notifyHorsesChanged();
+        this.updateUI(this.container);
+      });
+    }
+
+    // Weather select
+    const weatherSelect = container.querySelector(
+      "#raceWeather",
+    ) as HTMLSelectElement;
+    if (weatherSelect) {
+      weatherSelect.addEventListener("change", () => {
+        this.weather =
+          weatherSelect.value === "seed"
+            ? null
+            : (weatherSelect.value as Weather);
+        this.notifyHorsesChanged();
+      });
+    }
+
+    // Drafting select
+    const draftingSelect = container.querySelector(
+      "#raceDrafting",
+    ) as HTMLSelectElement;
+    if (draftingSelect) {
+      draftingSelect.addEventListener("change", () => {
+        this.drafting = draftingSelect.value as DraftingPreset;
+        this.notifyHorsesChanged();
+      });
+    }
+
+    // Dead heat tolerance input
+    const toleranceInput = container.querySelector(
+      "#raceDeadHeatTolerance",
+    ) as HTMLInputElement;
+    if (toleranceInput) {
+      toleranceInput.addEventListener("change", () => {
+        const tolerance = parseFloat(toleranceInput.value);
+        this.deadHeatTolerance = Number.isFinite(tolerance)
+          ? this.clamp(tolerance, 0, 1)
+          : DEFAULT_DEAD_HEAT_TOLERANCE;
+        this.notifyHorsesChanged();
+        this.updateUI(this.container);
+      });
+    }
+
     // Add horse button
     const addBtn = container.querySelector("#addHorse");
     if (addBtn) {
       addBtn.addEventListener("click", () => this.addHorse());
     }
 
+    // Randomize race field size
+    const fieldSizeInput = container.querySelector(
+      "#randomFieldSize",
+    ) as HTMLInputElement | null;
+    fieldSizeInput?.addEventListener("change", () => {
+      const size = parseInt(fieldSizeInput.value, 10);
+      this.randomFieldSize = Number.isNaN(size)
+        ? DEFAULT_RANDOM_FIELD_SIZE
+        : this.clamp(size, 1, MAX_FIELD_SIZE);
+      this.updateUI(container);
+    });
+
     // Randomize race button
     const randomizeRaceBtn = container.querySelector("#randomizeRace");
     if (randomizeRaceBtn) {
@@ -273,6 +509,81 @@ export class HorseEditor {
       });
     });
 
+    // Save horse to stable buttons
+    container.querySelectorAll(".stableHorse").forEach((btn) => {
+      btn.addEventListener("click", (e) => {
+        e.stopPropagation();
+        const horseId = (btn as HTMLElement).getAttribute("data-horse-id");
+        const horse = this.horses.find((h) => h.id === horseId);
+        if (horse && !this.stable.has(horse.id)) {
+          this.stable.add(horse);
+          this.stableHorseIds.add(horse.id);
+          this.updateUI(this.container);
+        }
+      });
+    });
+
+    // Add horse from stable buttons
+    container.querySelectorAll(".addFromStable").forEach((btn) => {
+      btn.addEventListener("click", () => {
+        const horseId = (btn as HTMLElement).getAttribute("data-horse-id");
+        if (horseId) this.addStableHorse(horseId);
+      });
+    });
+
+    // Remove horse from stable buttons
+    container.querySelectorAll(".removeFromStable").forEach((btn) => {
+      btn.addEventListener("click", () => {
+        const horseId = (btn as HTMLElement).getAttribute("data-horse-id");
+        const horse = horseId ? this.stable.getHorse(horseId) : undefined;
+        if (
+          horse &&
+          confirm(
+            `Remove ${horse.name} and their career record from the stable?`,
+          )
+        ) {
+          this.stable.remove(horse.id);
+          this.updateUI(this.container);
+        }
+      });
+    });
+
+    // Breeding parent selects
+    const sireSelect = container.querySelector(
+      "#breedSire",
+    ) as HTMLSelectElement | null;
+    const damSelect = container.querySelector(
+      "#breedDam",
+    ) as HTMLSelectElement | null;
+    sireSelect?.addEventListener("change", () => {
+      this.sireId = sireSelect.value;
+    });
+    damSelect?.addEventListener("change", () => {
+      this.damId = damSelect.value;
+    });
+
+    // Breed foal button
+    const breedBtn = container.querySelector("#breedFoal");
+    if (breedBtn && sireSelect && damSelect) {
+      breedBtn.addEventListener("click", () =>
+        this.breedFoal(sireSelect.value, damSelect.value),
+      );
+    }
+
+    // Import parents button
+    const importParentsBtn = container.querySelector("#importParents");
+    const importParentsInput = container.querySelector(
+      "#importParentsInput",
+    ) as HTMLInputElement;
+    if (importParentsBtn && importParentsInput) {
+      importParentsBtn.addEventListener("click", () =>
+        importParentsInput.click(),
+      );
+      importParentsInput.addEventListener("change", (e) =>
+        this.handleImportParents(e),
+      );
+    }
+
     // Horse item click (for editing)
     const horseItems = container.querySelectorAll(".horse-item");
     horseItems.forEach((item) => {
@@ -321,11 +632,19 @@ export class HorseEditor {
         input.addEventListener("input", () => this.updateSpeedGraph());
       }
     });
+
+    const previewSelects = ["horseRunningStyle", "horsePreferredGoing"];
+    previewSelects.forEach((selectId) => {
+      const select = container.querySelector(`#${selectId}`);
+      if (select) {
+        select.addEventListener("change", () => this.updateSpeedGraph());
+      }
+    });
   }
 
   private addHorse(): void {
-    if (this.horses.length >= 8) return;
-    const horse = this.generateHorse()
+    if (this.horses.length >= MAX_FIELD_SIZE) return;
+    const horse = this.generateHorse();
     this.horses.push(horse);
     this.editingHorseId = horse.id;
     this.notifyHorsesChanged();
@@ -333,8 +652,147 @@ export class HorseEditor {
     this.updateSpeedGraph();
   }
 
+  private addStableHorse(horseId: string): void {
+    const horse = this.stable.getHorse(horseId);
+    if (
+      !horse ||
+      this.horses.length >= MAX_FIELD_SIZE ||
+      this.stable.isInjured(horseId) ||
+      this.horses.some((h) => h.id === horseId)
+    ) {
+      return;
+    }
+
+    this.horses.push(structuredClone(horse));
+    this.stableHorseIds.add(horseId);
+    this.notifyHorsesChanged();
+    this.updateUI(this.container);
+  }
+
+  /**
+   * Pick up training changes to stable horses in the field, and withdraw any
+   * that are now injured
+   */
+  public syncFromStable(): void {
+    const injured = this.horses.filter(
+      (h) => this.stableHorseIds.has(h.id) && this.stable.isInjured(h.id),
+    );
+    injured.forEach((horse) => {
+      console.log(`${horse.name} is injured and has been withdrawn`);
+    });
+
+    this.horses = this.horses
+      .filter((h) => !injured.includes(h))
+      .map((h) =>
+        this.stableHorseIds.has(h.id)
+          ? structuredClone(this.stable.getHorse(h.id) ?? h)
+          : h,
+      );
+    if (
+      this.editingHorseId &&
+      !this.horses.some((h) => h.id === this.editingHorseId)
+    ) {
+      this.editingHorseId = null;
+    }
+
+    this.notifyHorsesChanged();
+    this.updateUI(this.container);
+    this.updateSpeedGraph();
+  }
+
+  /**
+   * Horses that can be bred from: the field, the stable and any imported parents
+   */
+  private getBreedingCandidates(): { horse: HorseData; source: string }[] {
+    const candidates = [
+      ...this.horses.map((horse) => ({ horse, source: "race" })),
+      ...this.stable
+        .getEntries()
+        .map(({ horse }) => ({ horse, source: "stable" })),
+      ...this.importedParents.map((horse) => ({ horse, source: "imported" })),
+    ];
+
+    // The same horse can be in more than one place
+    return candidates.filter(
+      (candidate, index) =>
+        candidates.findIndex((c) => c.horse.id === candidate.horse.id) ===
+        index,
+    );
+  }
+
+  private breedFoal(sireId: string, damId: string): void {
+    if (this.horses.length >= MAX_FIELD_SIZE) return;
+    if (sireId === damId) {
+      alert("Pick two different horses to breed.");
+      return;
+    }
+
+    const candidates = this.getBreedingCandidates();
+    const sire = candidates.find((c) => c.horse.id === sireId)?.horse;
+    const dam = candidates.find((c) => c.horse.id === damId)?.horse;
+    if (!sire || !dam) return;
+
+    // Each foal of the same pairing gets its own stream, numbered by the
+    // siblings already in the field, the stable or the imported parents. A
+    // number whose foal is still about (a deleted older sibling leaves a gap)
+    // is skipped, so a pairing never produces the same foal twice.
+    const siblings = candidates.filter(
+      ({ horse }) =>
+        horse.pedigree?.sire.id === sireId && horse.pedigree?.dam.id === damId,
+    ).length;
+    let foal: HorseData;
+    for (let foalNumber = siblings; ; foalNumber++) {
+      const random = createRandom(this.raceSeed, RandomStream.BREEDING).fork(
+        `${sireId}:${damId}:${foalNumber}`,
+      );
+      foal = breedFoal(
+        sire,
+        dam,
+        random,
+        this.generateRandomName(random, this.horses.length),
+      );
+      const foalId = foal.id;
+      if (!candidates.some(({ horse }) => horse.id === foalId)) break;
+    }
+    this.horses.push(foal);
+    this.sireId = sireId;
+    this.damId = damId;
+    this.editingHorseId = foal.id;
+    this.notifyHorsesChanged();
+    this.updateUI(this.container);
+    this.updateSpeedGraph();
+  }
+
+  private async handleImportParents(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+
+    try {
+      const json = JSON.parse(await file.text());
+      const validation = validateRaceConfig(json);
+      if (!validation.success) {
+        const errorMessage = validation.issues
+          ? `${validation.error}:\n${validation.issues.join("\n")}`
+          : validation.error;
+        alert(errorMessage);
+        return;
+      }
+
+      this.importedParents = validation.data.horses;
+      this.updateUI(this.container);
+    } catch (error) {
+      const errorMsg =
+        error instanceof Error ? error.message : "Invalid JSON file format";
+      alert(`❌ Import Failed\n\n${errorMsg}`);
+    } finally {
+      input.value = ""; // Reset file input
+    }
+  }
+
   private deleteHorse(horseId: string): void {
     this.horses = this.horses.filter((h) => h.id !== horseId);
+    this.stableHorseIds.delete(horseId);
     if (this.editingHorseId === horseId) {
       this.editingHorseId = null;
     }
@@ -343,12 +801,15 @@ export class HorseEditor {
   }
 
   private randomizeFullRace(): void {
-    // Clear all existing horses
+    // Clear all existing horses and restart the field stream,
+    // so the same seed always rebuilds the same field
     this.horses = [];
+    this.stableHorseIds.clear();
     this.editingHorseId = null;
+    this.drafting = getDraftingPreset();
+    this.resetFieldRandom();
 
-    // Add 8 random horses
-    for (let i = 0; i < 8; i++) {
+    for (let i = 0; i < this.randomFieldSize; i++) {
       this.horses.push(this.generateHorse());
     }
 
@@ -386,6 +847,12 @@ export class HorseEditor {
     const faceSelect = this.container.querySelector(
       "#horseFace",
     ) as HTMLSelectElement;
+    const runningStyleSelect = this.container.querySelector(
+      "#horseRunningStyle",
+    ) as HTMLSelectElement;
+    const preferredGoingSelect = this.container.querySelector(
+      "#horsePreferredGoing",
+    ) as HTMLSelectElement;
 
     const oldSpeed = horse.stats.speed;
     const newSpeed = this.clamp(parseFloat(speedInput.value) || 0.5, 0, 1);
@@ -402,11 +869,12 @@ export class HorseEditor {
       0,
       1,
     );
-    horse.hat = hatSelect.value as
-      | "horse-ears"
-      | "reindeer-antlers"
-      | "top-hat";
-    horse.face = faceSelect.value as "happy" | "innocent" | "red-nose";
+    horse.hat = hatSelect.value as HatType;
+    horse.face = faceSelect.value as FaceType;
+    horse.runningStyle = runningStyleSelect.value as RunningStyle;
+    horse.preferredGoing = (preferredGoingSelect.value || undefined) as
+      | Going
+      | undefined;
 
     // Regenerate base speed only if max speed changed
     if (oldSpeed !== newSpeed) {
@@ -444,7 +912,7 @@ export class HorseEditor {
 
     if (!speedInput || !staminaInput || !accelInput) return;
 
-    const randomStats = generateRandomStats();
+    const randomStats = generateRandomStats(this.fieldRandom);
     speedInput.value = randomStats.speed.toFixed(3);
     staminaInput.value = randomStats.stamina.toFixed(3);
     accelInput.value = randomStats.acceleration.toFixed(3);
@@ -488,8 +956,34 @@ export class HorseEditor {
       acceleration: this.clamp(parseFloat(accelInput.value) || 0.5, 0, 1),
     };
 
-    const tempHorse: HorseData = { ...horse, stats: tempStats };
-    const speedCurve = calculateSpeedCurve(tempHorse, this.trackLength);
+    // Preview the selected running style before it is saved
+    const runningStyleSelect = this.container.querySelector(
+      "#horseRunningStyle",
+    ) as HTMLSelectElement | null;
+    const runningStyle = (runningStyleSelect?.value ?? horse.runningStyle) as
+      | RunningStyle
+      | undefined;
+
+    const preferredGoingSelect = this.container.querySelector(
+      "#horsePreferredGoing",
+    ) as HTMLSelectElement | null;
+    const preferredGoing = (
+      preferredGoingSelect
+        ? preferredGoingSelect.value || undefined
+        : horse.preferredGoing
+    ) as Going | undefined;
+
+    const tempHorse: HorseData = {
+      ...horse,
+      stats: tempStats,
+      runningStyle,
+      preferredGoing,
+    };
+    const speedCurve = calculateSpeedCurve(
+      tempHorse,
+      this.getRaceLength(),
+      this.getGoing(),
+    );
     const raceTime = calculateRaceTime(speedCurve);
 
     const canvas = this.container.querySelector(
@@ -505,12 +999,24 @@ export class HorseEditor {
     }
   }
 
-  private generateHorseColor(index: number): number {
-    // Use the index as a seed for picking a color deterministically
-    const seed = (index * 9301 + 49297) % 233280;
-    const rand = (seed / 233280);
-    const colorIndex = Math.floor(rand * colors.length);
-    return colors[colorIndex];
+  private setRaceDistance(distance: RaceDistance): void {
+    if (!Number.isFinite(distance.value) || distance.value <= 0) return;
+
+    // Whole laps only
+    const value =
+      distance.unit === "laps"
+        ? Math.max(1, Math.round(distance.value))
+        : distance.value;
+    this.raceDistance = { unit: distance.unit, value };
+    this.notifyHorsesChanged();
+    this.updateUI(this.container);
+  }
+
+  /**
+   * Total race length in track units for the selected distance
+   */
+  private getRaceLength(): number {
+    return createRaceCourse(this.lapLength, this.raceDistance).raceDistance;
   }
 
   private clamp(value: number, min: number, max: number): number {
@@ -518,19 +1024,19 @@ export class HorseEditor {
   }
 
   private notifyHorsesChanged(): void {
+    // Keep the stable's copy of edited stable horses up to date. Horses that
+    // only share an id with one (a re-imported file or a rebuilt field) are
+    // separate copies and must not overwrite a trained horse.
+    this.stable.updateHorses(
+      this.horses.filter((h) => this.stableHorseIds.has(h.id)),
+    );
     if (this.onHorsesChanged) {
       this.onHorsesChanged(this.horses);
     }
   }
 
   private exportRace(): void {
-    const raceConfig: RaceConfig = {
-      version: "1.0",
-      raceSeed: this.raceSeed,
-      horses: this.horses,
-    };
-
-    const jsonString = JSON.stringify(raceConfig, null, 2);
+    const jsonString = JSON.stringify(this.getRaceConfig(), null, 2);
     const blob = new Blob([jsonString], { type: "application/json" });
     const url = URL.createObjectURL(blob);
 
@@ -573,13 +1079,7 @@ export class HorseEditor {
         }
       }
 
-      // Import the race
-      this.horses = validation.data.horses;
-      this.raceSeed = validation.data.raceSeed;
-      this.editingHorseId = null;
-      this.notifyHorsesChanged();
-      this.updateUI(this.container);
-
+      this.applyRaceConfig(validation.data);
       alert("✅ Race imported successfully!");
     } catch (error) {
       const errorMsg =
@@ -590,6 +1090,76 @@ export class HorseEditor {
     }
   }
 
+  /**
+   * Generate a field of any size from a seed, e.g. for a tournament.
+   * Given names are used first, the rest get random names.
+   */
+  public generateField(
+    seed: number,
+    count: number,
+    names: string[] = [],
+  ): HorseData[] {
+    const random = createRandom(seed, RandomStream.FIELD);
+    return Array.from({ length: count }, (_, index) =>
+      generateRandomHorse(
+        seed,
+        index,
+        random,
+        () => names[index] ?? this.generateRandomName(random, index),
+      ),
+    );
+  }
+
+  /**
+   * Replace the field and seed, e.g. with the next tournament race.
+   * The distance, going and weather picks are kept.
+   */
+  public loadRace(horses: HorseData[], raceSeed: number): void {
+    this.horses = horses;
+    this.stableHorseIds.clear();
+    this.raceSeed = raceSeed;
+    this.resetFieldRandom();
+    this.editingHorseId = null;
+    this.notifyHorsesChanged();
+    this.updateUI(this.container);
+  }
+
+  /**
+   * The current race as saved in race files
+   */
+  public getRaceConfig(): RaceConfig {
+    return {
+      version: "1.0",
+      raceSeed: this.raceSeed,
+      distance: this.raceDistance,
+      going: this.getGoing(),
+      weather: this.getWeather(),
+      drafting: this.drafting,
+      deadHeatTolerance: this.deadHeatTolerance,
+      horses: this.horses,
+    };
+  }
+
+  /**
+   * Replace the whole race, e.g. from an imported file or a meeting card
+   */
+  public applyRaceConfig(config: Omit<RaceConfig, "version">): void {
+    this.horses = structuredClone(config.horses);
+    this.stableHorseIds.clear();
+    this.raceSeed = config.raceSeed;
+    this.raceDistance = config.distance ?? DEFAULT_RACE_DISTANCE;
+    // Files without a going or weather run on good and clear, as in the simulation
+    this.going = config.going ?? DEFAULT_GOING;
+    this.weather = config.weather ?? DEFAULT_WEATHER;
+    this.drafting = config.drafting ?? DEFAULT_DRAFTING_PRESET;
+    this.deadHeatTolerance =
+      config.deadHeatTolerance ?? DEFAULT_DEAD_HEAT_TOLERANCE;
+    this.resetFieldRandom();
+    this.editingHorseId = null;
+    this.notifyHorsesChanged();
+    this.updateUI(this.container);
+  }
+
   public onHorsesChange(callback: (horses: HorseData[]) => void): void {
     this.onHorsesChanged = callback;
   }
@@ -602,6 +1172,67 @@ export class HorseEditor {
     return this.raceSeed;
   }
 
+  public getRaceDistance(): RaceDistance {
+    return this.raceDistance;
+  }
+
+  public getDrafting(): DraftingPreset {
+    return this.drafting;
+  }
+
+  public getDeadHeatTolerance(): number {
+    return this.deadHeatTolerance;
+  }
+
+  /**
+   * Going for the race: picked in the editor or drawn from the seed
+   */
+  public getGoing(): Going {
+    return this.going ?? this.getSeedGoing();
+  }
+
+  private getSeedGoing(): Going {
+    // Snow is only in the draw for the Christmas theme
+    return drawGoing(this.raceSeed, getCurrentTheme() === "christmas");
+  }
+
+  /**
+   * Weather for the race: picked in the editor or drawn from the seed
+   */
+  public getWeather(): Weather {
+    return this.weather ?? this.getSeedWeather();
+  }
+
+  private getSeedWeather(): Weather {
+    // Snow is only in the draw for the Christmas theme
+    return drawWeather(this.raceSeed, getCurrentTheme() === "christmas");
+  }
+
+  /**
+   * Show odds for the field in the horse list (null clears them while they're recalculated)
+   */
+  public setOdds(odds: HorseOdds[] | null): void {
+    this.odds = new Map(odds?.map((entry) => [entry.horseId, entry]));
+
+    // Update the odds in place so an open edit form isn't redrawn
+    this.container
+      .querySelectorAll<HTMLElement>("[data-odds-for]")
+      .forEach((element) => {
+        element.textContent = this.getOddsLabel(element.dataset.oddsFor ?? "");
+      });
+  }
+
+  private getOddsLabel(horseId: string): string {
+    return this.odds.get(horseId)?.fractionalOdds ?? "...";
+  }
+
+  /**
+   * Redraw the editor after something outside it changed (e.g. theme)
+   */
+  public refresh(): void {
+    this.updateUI(this.container);
+  }
+
   public open(): void {
     this.isOpen = true;
     this.container.style.transform = "translateX(0)";
@@ -16,8 +16,24 @@ export const containerStyles = `
 
 export interface MainTemplateData {
   raceSeed: number;
+  distanceUnit: "laps" | "distance";
+  distanceValue: number;
+  going: string; // "seed" when drawn from the race seed
+  seedGoingLabel: string; // Going the seed currently draws
+  weather: string; // "seed" when drawn from the race seed
+  seedWeatherLabel: string; // Weather the seed currently draws
+  drafting: string; // Drafting preset for this race
+  deadHeatTolerance: number; // Seconds
   horseListHTML: string;
+  stableHTML: string;
+  stableCount: number;
+  breedingOptions: { id: string; label: string }[]; // Horses that can be bred from
+  sireId: string | null;
+  damId: string | null;
+  importedParentsCount: number;
   horsesCount: number;
+  maxHorses: number;
+  randomFieldSize: number; // Horses "Randomize Full Race" creates
   editingHorseId: string | null;
   editorFormHTML: string;
 }
@@ -42,24 +58,112 @@ export function renderMainTemplate(data: MainTemplateData): string {
       </button>
     </div>
 
+    <div style="margin-bottom: 20px;">
+      <label style="display: block; margin-bottom: 5px;">Race Distance:</label>
+      <div style="display: grid; grid-template-columns: 1fr 1fr; gap: 5px;">
+        <input 
+          type="number" 
+          id="raceDistanceValue" 
+          value="${data.distanceValue}"
+          min="${data.distanceUnit === "laps" ? 1 : 50}"
+          step="${data.distanceUnit === "laps" ? 1 : 50}"
+          style="padding: 5px; background: #333; color: white; border: 1px solid #555;"
+        />
+        <select 
+          id="raceDistanceUnit"
+          style="padding: 5px; background: #333; color: white; border: 1px solid #555;"
+        >
+          <option value="laps" ${data.distanceUnit === "laps" ? "selected" : ""}>Laps</option>
+          <option value="distance" ${data.distanceUnit === "distance" ? "selected" : ""}>Distance</option>
+        </select>
+      </div>
+    </div>
+
+    <div style="margin-bottom: 20px;">
+      <label style="display: block; margin-bottom: 5px;">Going:</label>
+      <select 
+        id="raceGoing"
+        style="width: 100%; padding: 5px; background: #333; color: white; border: 1px solid #555;"
+      >
+        <option value="seed" ${data.going === "seed" ? "selected" : ""}>🎲 From Seed (${data.seedGoingLabel})</option>
+        <option value="firm" ${data.going === "firm" ? "selected" : ""}>Firm</option>
+        <option value="good" ${data.going === "good" ? "selected" : ""}>Good</option>
+        <option value="soft" ${data.going === "soft" ? "selected" : ""}>Soft</option>
+        <option value="heavy" ${data.going === "heavy" ? "selected" : ""}>Heavy</option>
+        <option value="snow" ${data.going === "snow" ? "selected" : ""}>❄️ Snow</option>
+      </select>
+    </div>
+
+    <div style="margin-bottom: 20px;">
+      <label style="display: block; margin-bottom: 5px;">Weather:</label>
+      <select 
+        id="raceWeather"
+        style="width: 100%; padding: 5px; background: #333; color: white; border: 1px solid #555;"
+      >
+        <option value="seed" ${data.weather === "seed" ? "selected" : ""}>🎲 From Seed (${data.seedWeatherLabel})</option>
+        <option value="clear" ${data.weather === "clear" ? "selected" : ""}>☀️ Clear</option>
+        <option value="rain" ${data.weather === "rain" ? "selected" : ""}>🌧️ Rain</option>
+        <option value="snow" ${data.weather === "snow" ? "selected" : ""}>❄️ Snow</option>
+        <option value="fog" ${data.weather === "fog" ? "selected" : ""}>🌫️ Fog</option>
+        <option value="wind" ${data.weather === "wind" ? "selected" : ""}>💨 Wind</option>
+      </select>
+    </div>
+
+    <div style="margin-bottom: 20px;">
+      <label style="display: block; margin-bottom: 5px;">Drafting:</label>
+      <select 
+        id="raceDrafting"
+        style="width: 100%; padding: 5px; background: #333; color: white; border: 1px solid #555;"
+      >
+        <option value="off" ${data.drafting === "off" ? "selected" : ""}>Off</option>
+        <option value="light" ${data.drafting === "light" ? "selected" : ""}>Light</option>
+        <option value="normal" ${data.drafting === "normal" ? "selected" : ""}>Normal</option>
+        <option value="strong" ${data.drafting === "strong" ? "selected" : ""}>Strong</option>
+      </select>
+    </div>
+
+    <div style="margin-bottom: 20px;">
+      <label style="display: block; margin-bottom: 5px;">Dead Heat Tolerance (seconds):</label>
+      <input 
+        type="number" 
+        id="raceDeadHeatTolerance" 
+        value="${data.deadHeatTolerance}"
+        min="0"
+        max="1"
+        step="0.001"
+        style="width: 100%; padding: 5px; background: #333; color: white; border: 1px solid #555;"
+      />
+    </div>
+
     <div id="horseList" style="margin-bottom: 20px;">
       ${data.horseListHTML}
     </div>
 
     <button 
       id="addHorse"
-      ${data.horsesCount >= 8 ? "disabled" : ""}
-      style="padding: 10px; background: #0a6; color: white; border: none; cursor: pointer; width: 100%; margin-bottom: 10px; ${data.horsesCount >= 8 ? "opacity: 0.5; cursor: not-allowed;" : ""}"
+      ${data.horsesCount >= data.maxHorses ? "disabled" : ""}
+      style="padding: 10px; background: #0a6; color: white; border: none; cursor: pointer; width: 100%; margin-bottom: 10px; ${data.horsesCount >= data.maxHorses ? "opacity: 0.5; cursor: not-allowed;" : ""}"
     >
-      Add Horse (${data.horsesCount}/8)
+      Add Horse (${data.horsesCount}/${data.maxHorses})
     </button>
 
-    <button 
-      id="randomizeRace"
-      style="padding: 10px; background: #a06; color: white; border: none; cursor: pointer; width: 100%; margin-bottom: 10px;"
-    >
-      🎲 Randomize Full Race (8 Horses)
-    </button>
+    <div style="display: flex; gap: 10px; margin-bottom: 10px;">
+      <input 
+        type="number" 
+        id="randomFieldSize" 
+        value="${data.randomFieldSize}"
+        min="1"
+        max="${data.maxHorses}"
+        title="Horses in the randomized race"
+        style="width: 60px; padding: 5px; background: #333; color: white; border: 1px solid #555;"
+      />
+      <button 
+        id="randomizeRace"
+        style="flex: 1; padding: 10px; background: #a06; color: white; border: none; cursor: pointer;"
+      >
+        🎲 Randomize Full Race (${data.randomFieldSize} Horses)
+      </button>
+    </div>
 
     <div style="display: grid; grid-template-columns: 1fr 1fr; gap: 10px; margin-bottom: 10px;">
       <button 
@@ -77,6 +181,16 @@ export function renderMainTemplate(data: MainTemplateData): string {
     </div>
     <input type="file" id="importFileInput" accept=".json" style="display: none;" />
 
+    <div style="border-top: 2px solid #555; padding-top: 10px; margin-top: 10px;">
+      <h3 style="margin: 0 0 10px 0;">Stable (${data.stableCount})</h3>
+      ${data.stableHTML}
+    </div>
+
+    <div style="border-top: 2px solid #555; padding-top: 10px; margin-top: 10px;">
+      <h3 style="margin: 0 0 10px 0;">Breeding</h3>
+      ${renderBreedingForm(data)}
+    </div>
+
     <div id="editorForm" style="display: ${data.editingHorseId ? "block" : "none"}; border-top: 2px solid #555; padding-top: 20px; margin-top: 20px;">
       ${data.editorFormHTML}
     </div>
@@ -89,6 +203,61 @@ export function renderMainTemplate(data: MainTemplateData): string {
   `;
 }
 
+function renderBreedingForm(data: MainTemplateData): string {
+  if (data.breedingOptions.length < 2) {
+    return `
+      <p style="color: #888; font-size: 12px;">Add at least two horses to the race or stable, or import parents from a race file.</p>
+      ${renderImportParentsButton(data)}
+    `;
+  }
+
+  const options = (selectedId: string | null) =>
+    data.breedingOptions
+      .map(
+        (option) =>
+          `<option value="${option.id}" ${option.id === selectedId ? "selected" : ""}>${option.label}</option>`,
+      )
+      .join("");
+  const canBreed = data.horsesCount < data.maxHorses;
+
+  return `
+    <label style="display: block; margin-bottom: 5px;">Sire:</label>
+    <select 
+      id="breedSire"
+      style="width: 100%; padding: 5px; background: #333; color: white; border: 1px solid #555; margin-bottom: 10px;"
+    >
+      ${options(data.sireId)}
+    </select>
+    <label style="display: block; margin-bottom: 5px;">Dam:</label>
+    <select 
+      id="breedDam"
+      style="width: 100%; padding: 5px; background: #333; color: white; border: 1px solid #555; margin-bottom: 10px;"
+    >
+      ${options(data.damId)}
+    </select>
+    <button 
+      id="breedFoal"
+      ${canBreed ? "" : "disabled"}
+      style="padding: 10px; background: #a60; color: white; border: none; cursor: pointer; width: 100%; margin-bottom: 10px; ${canBreed ? "" : "opacity: 0.5; cursor: not-allowed;"}"
+    >
+      🐣 Breed Foal${canBreed ? "" : " (race is full)"}
+    </button>
+    ${renderImportParentsButton(data)}
+  `;
+}
+
+function renderImportParentsButton(data: MainTemplateData): string {
+  return `
+    <button 
+      id="importParents"
+      style="padding: 10px; background: #660; color: white; border: none; cursor: pointer; width: 100%;"
+    >
+      📤 Import Parents${data.importedParentsCount > 0 ? ` (${data.importedParentsCount} loaded)` : ""}
+    </button>
+    <input type="file" id="importParentsInput" accept=".json" style="display: none;" />
+  `;
+}
+
 export interface HorseItemData {
   id: string;
   name: string;
@@ -98,6 +267,9 @@ export interface HorseItemData {
   acceleration: number;
   baseSpeed: number;
   raceTime: number;
+  odds: string; // Fractional win odds, "..." while they are worked out
+  preferredGoing: string;
+  inStable: boolean;
 }
 
 export function renderHorseItem(horse: HorseItemData): string {
@@ -109,22 +281,83 @@ export function renderHorseItem(horse: HorseItemData): string {
     >
       <div style="display: flex; justify-content: space-between; align-items: center;">
         <span><strong>${horse.name}</strong></span>
-        <button 
-          class="deleteHorse" 
-          data-horse-id="${horse.id}"
-          style="background: #c33; color: white; border: none; padding: 5px 10px; cursor: pointer;"
-        >Delete</button>
+        <span>
+          <button 
+            class="stableHorse" 
+            data-horse-id="${horse.id}"
+            ${horse.inStable ? "disabled" : ""}
+            style="background: #660; color: white; border: none; padding: 5px 10px; cursor: pointer; ${horse.inStable ? "opacity: 0.5; cursor: default;" : ""}"
+          >${horse.inStable ? "In Stable" : "Save"}</button>
+          <button 
+            class="deleteHorse" 
+            data-horse-id="${horse.id}"
+            style="background: #c33; color: white; border: none; padding: 5px 10px; cursor: pointer;"
+          >Delete</button>
+        </span>
       </div>
       <div style="font-size: 11px; color: #aaa; margin-top: 5px;">
         Speed: ${horse.speed.toFixed(2)} | Stamina: ${horse.stamina.toFixed(2)} | Accel: ${horse.acceleration.toFixed(2)}
       </div>
       <div style="font-size: 11px; color: #888;">
-        Base Speed: ${horse.baseSpeed.toFixed(2)} u/s | Est. Time: ${horse.raceTime.toFixed(2)}s
+        Base Speed: ${horse.baseSpeed.toFixed(2)} u/s | Est. Time: ${horse.raceTime.toFixed(2)}s | Odds: <span data-odds-for="${horse.id}">${horse.odds}</span>
+      </div>
+      <div style="font-size: 11px; color: #888;">
+        Prefers: ${horse.preferredGoing}
       </div>
     </div>
   `;
 }
 
+export interface StableItemData {
+  id: string;
+  name: string;
+  color: number;
+  starts: number;
+  wins: number;
+  places: number;
+  earnings: number;
+  bestTime: number | null; // Over the current race distance
+  fatigue: number; // 0-1
+  injuryWeeks: number; // Weeks still out injured
+  canAdd: boolean; // Not already racing, not injured and the field isn't full
+}
+
+export function renderStableItem(horse: StableItemData): string {
+  return `
+    <div style="background: #1a1a1a; padding: 8px 10px; margin-bottom: 8px; border-left: 4px solid #${horse.color.toString(16).padStart(6, "0")};">
+      <div style="display: flex; justify-content: space-between; align-items: center;">
+        <span><strong>${horse.name}</strong></span>
+        <span>
+          <button 
+            class="addFromStable" 
+            data-horse-id="${horse.id}"
+            ${horse.canAdd ? "" : "disabled"}
+            style="background: #0a6; color: white; border: none; padding: 4px 8px; cursor: pointer; ${horse.canAdd ? "" : "opacity: 0.5; cursor: not-allowed;"}"
+          >Add</button>
+          <button 
+            class="removeFromStable" 
+            data-horse-id="${horse.id}"
+            style="background: #c33; color: white; border: none; padding: 4px 8px; cursor: pointer;"
+          >X</button>
+        </span>
+      </div>
+      <div style="font-size: 11px; color: #aaa; margin-top: 5px;">
+        Starts: ${horse.starts} | Wins: ${horse.wins} | Places: ${horse.places} | Earnings: ${horse.earnings.toLocaleString()}
+      </div>
+      <div style="font-size: 11px; color: #888;">
+        Best Time (this distance): ${horse.bestTime !== null ? `${horse.bestTime.toFixed(2)}s` : "-"}
+      </div>
+      <div style="font-size: 11px; color: ${horse.injuryWeeks > 0 ? "#ff6b6b" : "#888"};">
+        ${horse.injuryWeeks > 0 ? `Injured (${horse.injuryWeeks} week${horse.injuryWeeks === 1 ? "" : "s"})` : `Fatigue: ${Math.round(horse.fatigue * 100)}%`}
+      </div>
+    </div>
+  `;
+}
+
+export function renderEmptyStable(): string {
+  return '<p style="color: #888; font-size: 12px;">No horses saved yet. Click "Save" on a horse to keep it in the stable.</p>';
+}
+
 export function renderEmptyHorseList(): string {
   return '<p style="color: #888;">No horses added yet. Click "Add Horse" to start.</p>';
 }
@@ -136,6 +369,8 @@ export interface EditorFormData {
   acceleration: number;
   hat: string;
   face: string;
+  runningStyle: string;
+  preferredGoing: string;
 }
 
 export function renderEditorForm(data: EditorFormData): string {
@@ -208,6 +443,29 @@ export function renderEditorForm(data: EditorFormData): string {
       style="width: 100%; padding: 5px; background: #333; color: white; border: 1px solid #555; margin-bottom: 15px;"
     />
 
+    <label style="display: block; margin-bottom: 5px;">Running Style:</label>
+    <select 
+      id="horseRunningStyle"
+      style="width: 100%; padding: 5px; background: #333; color: white; border: 1px solid #555; margin-bottom: 15px;"
+    >
+      <option value="hold-up" ${data.runningStyle === "hold-up" ? "selected" : ""}>🐢 Hold Up (save energy for the finish)</option>
+      <option value="even" ${data.runningStyle === "even" ? "selected" : ""}>⚖️ Even Pace</option>
+      <option value="go-early" ${data.runningStyle === "go-early" ? "selected" : ""}>🐇 Go Early (press on mid-race)</option>
+    </select>
+
+    <label style="display: block; margin-bottom: 5px;">Preferred Going:</label>
+    <select 
+      id="horsePreferredGoing"
+      style="width: 100%; padding: 5px; background: #333; color: white; border: 1px solid #555; margin-bottom: 15px;"
+    >
+      <option value="" ${data.preferredGoing === "" ? "selected" : ""}>No Preference</option>
+      <option value="firm" ${data.preferredGoing === "firm" ? "selected" : ""}>Firm</option>
+      <option value="good" ${data.preferredGoing === "good" ? "selected" : ""}>Good</option>
+      <option value="soft" ${data.preferredGoing === "soft" ? "selected" : ""}>Soft</option>
+      <option value="heavy" ${data.preferredGoing === "heavy" ? "selected" : ""}>Heavy</option>
+      <option value="snow" ${data.preferredGoing === "snow" ? "selected" : ""}>Snow</option>
+    </select>
+
     <div style="display: flex; gap: 10px; margin-bottom: 15px;">
       <button 
         id="randomizeName"
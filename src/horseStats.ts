@@ -1,3 +1,11 @@
+import {
+  DEFAULT_GOING,
+  type Going,
+  getGoingEffect,
+  getGoingSuitabilityFactor,
+} from "./going";
+import { createRandom, RandomStream, type SeededRandom } from "./utils/random";
+
 export interface HorseStats {
   speed: number; // 0-1, determines max speed
   stamina: number; // 0-1, how long at max speed before depleting
@@ -19,6 +27,33 @@ export type FaceType =
   | "shocked"
   | "glasses";
 
+/**
+ * How a horse spends its energy during a race
+ * - hold-up: sits off the pace to save energy for a strong finish
+ * - even: steady pace, pushes over the last fifth of the race
+ * - go-early: presses on mid-race and kicks from a long way out
+ */
+export type RunningStyle = "hold-up" | "even" | "go-early";
+
+export const DEFAULT_RUNNING_STYLE: RunningStyle = "even";
+
+/**
+ * A parent or earlier ancestor, with enough detail to draw a family tree
+ * even when the ancestor isn't in the current field
+ */
+export interface Ancestor {
+  id: string;
+  name: string;
+  color: number;
+  sire?: Ancestor;
+  dam?: Ancestor;
+}
+
+export interface Pedigree {
+  sire: Ancestor; // Father
+  dam: Ancestor; // Mother
+}
+
 export interface HorseData {
   id: string;
   name: string;
@@ -27,13 +62,51 @@ export interface HorseData {
   color: number; // Cube color for now
   hat: HatType;
   face: FaceType;
+  runningStyle?: RunningStyle; // Defaults to "even"
+  preferredGoing?: Going; // Runs best on this going
+  pedigree?: Pedigree; // Parents, for bred foals
 }
 
+export type SpeedPhase = "acceleration" | "cruising" | "push";
+
 export interface SpeedPoint {
   distance: number; // Progress along track
   speed: number; // Speed at this point
+  energy: number; // Share of the energy budget left (0-1)
+  phase: SpeedPhase;
 }
 
+/**
+ * Everything needed to work out a horse's pace and energy use over a race
+ */
+export interface EnergyProfile {
+  maxSpeed: number; // Flat out speed in the final push
+  cruisingSpeed: number; // Mid-race pace for the horse's running style
+  exhaustedSpeed: number; // Best pace once the tank is empty
+  accelerationDistance: number; // Distance taken to reach cruising speed
+  pushDistance: number; // Progress where the final push starts
+  raceDistance: number;
+  energyBudget: number; // Energy available for the whole race
+  efficientSpeed: number; // Speed at which one unit of energy covers one unit of distance
+  energyCostFactor: number; // Multiplier on energy used (from the going)
+}
+
+// Share of cruising speed held mid-race and where the final push starts (share of the race)
+const RUNNING_STYLES: Record<
+  RunningStyle,
+  { cruiseFactor: number; pushStart: number }
+> = {
+  "hold-up": { cruiseFactor: 0.92, pushStart: 0.85 },
+  even: { cruiseFactor: 1.0, pushStart: 0.8 },
+  "go-early": { cruiseFactor: 1.04, pushStart: 0.65 },
+};
+
+const ENERGY_BASE = 100; // Energy budget of a horse with no stamina
+const ENERGY_PER_STAMINA = 330; // Extra energy at full stamina
+export const FATIGUE_THRESHOLD = 0.2; // Share of the budget left when a horse starts to tire
+const EXHAUSTED_SPEED_FACTOR = 0.6; // Share of an even cruising pace a horse can hold on an empty tank
+const KICK_CEILING = 1.2; // Spare energy lets a horse push up to 120% of max speed
+
 /**
  * Generate a default horse name
  * This function will be updated later for more creative names
@@ -45,76 +118,195 @@ export function generateHorseName(index: number): string {
 /**
  * Generate random horse stats (rounded to 3 decimal places)
  */
-export function generateRandomStats(): HorseStats {
+export function generateRandomStats(random: SeededRandom): HorseStats {
   return {
-    speed: Math.round(Math.random() * 1000) / 1000,
-    stamina: Math.round(Math.random() * 1000) / 1000,
-    acceleration: Math.round(Math.random() * 1000) / 1000,
+    speed: Math.round(random.next() * 1000) / 1000,
+    stamina: Math.round(random.next() * 1000) / 1000,
+    acceleration: Math.round(random.next() * 1000) / 1000,
   };
 }
 
 /**
- * Calculate speed curve for a horse based on stats and base speed
- * Returns array of speed points across the track distance (base curve without variance)
+ * Work out pace and energy settings for a horse over a race distance
  */
-export function calculateSpeedCurve(
+export function createEnergyProfile(
   horse: HorseData,
-  trackLength: number,
-): SpeedPoint[] {
-  const points: SpeedPoint[] = [];
+  raceDistance: number,
+  going: Going = DEFAULT_GOING,
+): EnergyProfile {
   const {
     speed: speedStat,
     stamina: staminaStat,
     acceleration: accelerationStat,
   } = horse.stats;
+  const style = RUNNING_STYLES[horse.runningStyle ?? DEFAULT_RUNNING_STYLE];
+
+  // Ground conditions, and how much the horse likes them
+  const goingEffect = getGoingEffect(going);
+  const goingSpeed =
+    goingEffect.speedFactor *
+    getGoingSuitabilityFactor(horse.preferredGoing, going);
 
   // Calculate actual speeds - wider range for more drama
-  const maxSpeed = horse.baseSpeed * (0.6 + speedStat * 0.7); // 60-130% of base speed
-  const cruisingSpeed = maxSpeed * 0.85; // Cruising at 85% of max
+  const maxSpeed = horse.baseSpeed * (0.6 + speedStat * 0.7) * goingSpeed; // 60-130% of base speed
+  const cruisingSpeed = maxSpeed * 0.85 * style.cruiseFactor; // Cruising around 85% of max
 
-  // Calculate distances for each phase
-  const accelerationDistance = trackLength * (0.15 - accelerationStat * 0.1); // 5-15% of track
-  const midRaceEnd = trackLength * 0.85; // Mid-race ends at 85%
-  const finalStretch = trackLength * 0.15; // Last 15% is final stretch
+  return {
+    maxSpeed,
+    cruisingSpeed,
+    exhaustedSpeed: maxSpeed * 0.85 * EXHAUSTED_SPEED_FACTOR,
+    // 12-37 units to get up to speed, never more than half the race
+    accelerationDistance: Math.min(
+      37 - accelerationStat * 25,
+      raceDistance * 0.5,
+    ),
+    pushDistance: raceDistance * style.pushStart,
+    raceDistance,
+    energyBudget: ENERGY_BASE + staminaStat * ENERGY_PER_STAMINA,
+    // Faster horses burn through their energy quicker at the same stamina
+    efficientSpeed: horse.baseSpeed,
+    energyCostFactor: goingEffect.energyFactor,
+  };
+}
 
-  // Sample points along the track
+/**
+ * Phase of the race a horse is in at the given progress
+ */
+export function getSpeedPhase(
+  profile: EnergyProfile,
+  progress: number,
+): SpeedPhase {
+  if (progress < profile.accelerationDistance) return "acceleration";
+  if (progress < profile.pushDistance) return "cruising";
+  return "push";
+}
+
+/**
+ * Speed a horse wants to run at the given progress (before fatigue).
+ * In the final push a horse with energy to spare kicks harder.
+ */
+export function getPaceSpeed(
+  profile: EnergyProfile,
+  progress: number,
+  energy: number,
+): number {
+  const { maxSpeed, cruisingSpeed } = profile;
+  const phase = getSpeedPhase(profile, progress);
+
+  if (phase === "acceleration") {
+    // Acceleration phase - get up to speed
+    const t = progress / profile.accelerationDistance;
+    const easeT = t * t * (3 - 2 * t); // Smooth interpolation
+    return maxSpeed * 0.4 + (cruisingSpeed - maxSpeed * 0.4) * easeT;
+  }
+
+  if (phase === "cruising") {
+    // Mid-race cruising - base speed (variance will be applied during race)
+    return cruisingSpeed;
+  }
+
+  // Final push - spend whatever is left by the finish line.
+  // Every horse goes for max speed, those with energy to spare go beyond it.
+  const remainingDistance = Math.max(1, profile.raceDistance - progress);
+  const affordableSpeed =
+    profile.efficientSpeed * Math.sqrt(energy / remainingDistance);
+  const pushSpeed = Math.min(
+    maxSpeed * KICK_CEILING,
+    Math.max(maxSpeed, affordableSpeed),
+  );
+
+  // Build up to the push speed over the first half of the final push
+  const pushLength = profile.raceDistance - profile.pushDistance;
+  const t =
+    pushLength > 0
+      ? Math.min(1, (progress - profile.pushDistance) / (pushLength * 0.5))
+      : 1;
+  return cruisingSpeed + (pushSpeed - cruisingSpeed) * t;
+}
+
+/**
+ * Slow a tiring horse down (speed is unchanged while it has energy to spare)
+ */
+export function applyFatigue(
+  profile: EnergyProfile,
+  speed: number,
+  energy: number,
+): number {
+  const remaining = energy / profile.energyBudget;
+  if (remaining >= FATIGUE_THRESHOLD) return speed;
+
+  // Fade towards exhausted pace as the last of the energy goes
+  const exhaustedSpeed = Math.min(speed, profile.exhaustedSpeed);
+  const t = Math.max(0, remaining) / FATIGUE_THRESHOLD;
+  return exhaustedSpeed + (speed - exhaustedSpeed) * t;
+}
+
+/**
+ * Energy left after covering a distance at a speed.
+ * Cost grows with the square of speed, so running above cruising pace is expensive.
+ */
+export function spendEnergy(
+  profile: EnergyProfile,
+  energy: number,
+  speed: number,
+  distance: number,
+): number {
+  const cost =
+    (speed / profile.efficientSpeed) ** 2 * distance * profile.energyCostFactor;
+  return Math.max(0, energy - cost);
+}
+
+/**
+ * Calculate speed curve for a horse based on stats and base speed
+ * Returns array of speed points across the race distance (energy model without variance)
+ */
+export function calculateSpeedCurve(
+  horse: HorseData,
+  raceDistance: number,
+  going: Going = DEFAULT_GOING,
+): SpeedPoint[] {
+  const points: SpeedPoint[] = [];
+  const profile = createEnergyProfile(horse, raceDistance, going);
+
+  // Walk the race in small steps so energy use matches the simulation closely
   const numSamples = 100;
-  for (let i = 0; i <= numSamples; i++) {
-    const distance = (trackLength * i) / numSamples;
-    let currentSpeed: number;
-
-    if (distance < accelerationDistance) {
-      // Acceleration phase - get up to speed
-      const t = distance / accelerationDistance;
-      const easeT = t * t * (3 - 2 * t); // Smooth interpolation
-      currentSpeed = maxSpeed * 0.4 + (cruisingSpeed - maxSpeed * 0.4) * easeT;
-    } else if (distance < midRaceEnd) {
-      // Mid-race cruising - base speed (variance will be applied during race)
-      currentSpeed = cruisingSpeed;
-    } else {
-      // Final stretch - horses push for the finish
-      const t = (distance - midRaceEnd) / finalStretch;
-      const pushSpeed =
-        cruisingSpeed + (maxSpeed - cruisingSpeed) * (0.5 + staminaStat * 0.5);
-      currentSpeed = cruisingSpeed + (pushSpeed - cruisingSpeed) * t;
+  const stepsPerSample = 4;
+  const stepDistance = raceDistance / (numSamples * stepsPerSample);
+  let energy = profile.energyBudget;
+
+  for (let i = 0; i <= numSamples * stepsPerSample; i++) {
+    const distance = i * stepDistance;
+    const speed = applyFatigue(
+      profile,
+      getPaceSpeed(profile, distance, energy),
+      energy,
+    );
+
+    if (i % stepsPerSample === 0) {
+      points.push({
+        distance,
+        speed,
+        energy: energy / profile.energyBudget,
+        phase: getSpeedPhase(profile, distance),
+      });
     }
 
-    points.push({ distance, speed: currentSpeed });
+    energy = spendEnergy(profile, energy, speed, stepDistance);
   }
 
   return points;
 }
 
 /**
- * Generate a random base speed for a horse using a seeded random number generator
+ * Generate a random base speed for a horse from the race seed's field stream
  */
 export function generateBaseSpeed(seed: number, horseIndex: number): number {
-  // Simple seeded random using sine
-  const x = Math.sin(seed + horseIndex * 12345.6789) * 10000;
-  const random = x - Math.floor(x);
+  const random = createRandom(seed, RandomStream.FIELD).fork(
+    `base-speed-${horseIndex}`,
+  );
 
   // Map to 8-10 range
-  return 8 + random * 2;
+  return random.range(8, 10);
 }
 
 /**
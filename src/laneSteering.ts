@@ -0,0 +1,178 @@
+import type { SimulatedHorse } from "./raceSimulation";
+
+/**
+ * Lane steering for the headless simulation.
+ * Horses drift toward the rail, pull out to pass slower horses when there is
+ * a gap, sit behind them when there isn't (boxed in) and run wide on the turns.
+ * Lane offsets are measured from the inner rail, like RaceTrack.getTrackPosition.
+ */
+
+const HORSE_WIDTH = 1.1; // Lateral room a horse needs (horse is 1 unit wide)
+const HORSE_LENGTH = 1.5; // Longitudinal room a horse needs
+const LOOKAHEAD_DISTANCE = 4; // How far ahead a horse looks for traffic
+const RAIL_CLEARANCE = 0.8; // Closest a horse gets to either barrier
+const LANE_CHANGE_SPEED = 1.5; // Lateral units per second when changing lane
+const RAIL_DRIFT_SPEED = 0.6; // Lateral units per second when drifting toward the rail
+const TURN_DRIFT_SPEED = 0.2; // Lateral units per second pushed out on a turn at full speed
+
+export class LaneSteering {
+  private readonly trackWidth: number;
+
+  constructor(trackWidth: number) {
+    this.trackWidth = trackWidth;
+  }
+
+  /**
+   * Move a horse between lanes for one step
+   * @param horse - Horse to steer (laneOffset is updated in place)
+   * @param field - Every horse in the race
+   * @param desiredSpeed - Speed the horse wants to run this step
+   * @param onTurn - Whether the horse is on one of the curved ends
+   * @returns Speed the horse can actually run (capped when boxed in)
+   */
+  public steer(
+    horse: SimulatedHorse,
+    field: SimulatedHorse[],
+    desiredSpeed: number,
+    onTurn: boolean,
+    deltaTime: number,
+  ): number {
+    const blocker = this.findBlocker(horse, field);
+    let targetLane = horse.laneOffset;
+    let speed = desiredSpeed;
+
+    if (blocker && blocker.currentSpeed < desiredSpeed) {
+      // Look for a gap either side of the slower horse ahead
+      const gapLane = this.findGap(horse, blocker, field, onTurn);
+      if (gapLane !== null) {
+        targetLane = gapLane;
+      }
+
+      // Sit in behind until there's room to get past (boxed in if there's no gap)
+      if (blocker.progress - horse.progress < HORSE_LENGTH * 1.5) {
+        speed = Math.min(speed, blocker.currentSpeed);
+      }
+    } else if (onTurn) {
+      // Pace carries horses wide on the turns
+      const pace = desiredSpeed / horse.energyProfile.maxSpeed;
+      targetLane =
+        horse.laneOffset + TURN_DRIFT_SPEED * pace * pace * deltaTime;
+    } else {
+      // Save ground by tucking in toward the rail
+      targetLane = horse.laneOffset - RAIL_DRIFT_SPEED * deltaTime;
+    }
+
+    this.moveToward(horse, field, targetLane, deltaTime);
+    return speed;
+  }
+
+  /**
+   * Nearest horse directly ahead in the same lane
+   */
+  private findBlocker(
+    horse: SimulatedHorse,
+    field: SimulatedHorse[],
+  ): SimulatedHorse | null {
+    let blocker: SimulatedHorse | null = null;
+
+    for (const other of field) {
+      if (other === horse || other.hasFinished) continue;
+      const gap = other.progress - horse.progress;
+      if (gap <= 0 || gap > LOOKAHEAD_DISTANCE) continue;
+      if (Math.abs(other.laneOffset - horse.laneOffset) >= HORSE_WIDTH)
+        continue;
+      if (!blocker || gap < blocker.progress - horse.progress) {
+        blocker = other;
+      }
+    }
+
+    return blocker;
+  }
+
+  /**
+   * Pick a clear lane to pass a blocker, or null if the horse is boxed in.
+   * Prefers the shorter move; on turns horses go round the outside.
+   */
+  private findGap(
+    horse: SimulatedHorse,
+    blocker: SimulatedHorse,
+    field: SimulatedHorse[],
+    onTurn: boolean,
+  ): number | null {
+    const inside = blocker.laneOffset - HORSE_WIDTH;
+    const outside = blocker.laneOffset + HORSE_WIDTH;
+    const candidates =
+      onTurn ||
+      Math.abs(outside - horse.laneOffset) <=
+        Math.abs(inside - horse.laneOffset)
+        ? [outside, inside]
+        : [inside, outside];
+
+    for (const lane of candidates) {
+      if (this.isWithinTrack(lane) && this.isLaneClear(horse, field, lane)) {
+        return lane;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * True if no other horse is alongside or just ahead in the given lane
+   */
+  private isLaneClear(
+    horse: SimulatedHorse,
+    field: SimulatedHorse[],
+    lane: number,
+  ): boolean {
+    return field.every((other) => {
+      if (other === horse || other.hasFinished) return true;
+      const gap = other.progress - horse.progress;
+      if (gap <= -HORSE_LENGTH || gap > LOOKAHEAD_DISTANCE) return true;
+      return Math.abs(other.laneOffset - lane) >= HORSE_WIDTH;
+    });
+  }
+
+  /**
+   * Shift a horse sideways toward a lane, stopping short of any horse alongside
+   */
+  private moveToward(
+    horse: SimulatedHorse,
+    field: SimulatedHorse[],
+    targetLane: number,
+    deltaTime: number,
+  ): void {
+    const maxMove = LANE_CHANGE_SPEED * deltaTime;
+    const move = Math.max(
+      -maxMove,
+      Math.min(maxMove, targetLane - horse.laneOffset),
+    );
+    const nextLane = this.clampToTrack(horse.laneOffset + move);
+    if (nextLane === horse.laneOffset) return;
+
+    // Don't move into a horse running alongside
+    const direction = Math.sign(nextLane - horse.laneOffset);
+    const blocked = field.some((other) => {
+      if (other === horse || other.hasFinished) return false;
+      if (Math.abs(other.progress - horse.progress) >= HORSE_LENGTH)
+        return false;
+      const lateralGap = (other.laneOffset - horse.laneOffset) * direction;
+      return lateralGap > 0 && lateralGap < HORSE_WIDTH + Math.abs(move);
+    });
+
+    if (!blocked) {
+      horse.laneOffset = nextLane;
+    }
+  }
+
+  private isWithinTrack(lane: number): boolean {
+    return lane >= RAIL_CLEARANCE && lane <= this.trackWidth - RAIL_CLEARANCE;
+  }
+
+  private clampToTrack(lane: number): number {
+    return Math.max(
+      RAIL_CLEARANCE,
+      Math.min(this.trackWidth - RAIL_CLEARANCE, lane),
+    );
+  }
+}
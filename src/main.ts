@@ -2,30 +2,69 @@ import * as THREE from "three";
 import "./style.css";
 import { CameraController, CameraMode } from "./cameraController";
 import { CameraIndicator } from "./cameraIndicator";
+import { Championship } from "./championship";
 import { FreeFlyCamera } from "./freeFlyCamera";
 import { HorseEditor } from "./horseEditor";
 import type { HorseData } from "./horseStats";
+import { getPhotoVerdicts, getPodiumCaptions } from "./margins";
 import {
   isCrowdWaveActive,
   setRaceActive,
   startCrowdWave,
   updateSpectatorAnimations,
 } from "./models/bleachers";
+import { createOddsBoardTexture } from "./models/oddsBoard";
+import { calculateOddsAsync, type HorseOdds } from "./oddsCalculator";
+import { BettingOverlay } from "./overlays/bettingOverlay";
+import { ChampionshipOverlay } from "./overlays/championshipOverlay";
 import { CreditsOverlay } from "./overlays/creditsOverlay";
 import { DebugOverlay } from "./overlays/debugOverlay";
+import { DrawOverlay } from "./overlays/drawOverlay";
 import { LeaderboardOverlay } from "./overlays/leaderboardOverlay";
+import { MeetingOverlay } from "./overlays/meetingOverlay";
+import { PlayersOverlay } from "./overlays/playersOverlay";
+import { ReplayOverlay } from "./overlays/replayOverlay";
+import { SectionalsOverlay } from "./overlays/sectionalsOverlay";
+import { TournamentOverlay } from "./overlays/tournamentOverlay";
+import { TrainingOverlay } from "./overlays/trainingOverlay";
 import { PhotoFinish } from "./photoFinish";
+import { PlayerProfiles } from "./playerProfiles";
 import { PodiumScene } from "./podiumScene";
-import { RaceManager } from "./raceManager";
+import { hashRaceConfig, type MeetingRace } from "./raceConfigSchema";
+import { RaceManager, RaceState } from "./raceManager";
+import { RaceMeeting } from "./raceMeeting";
+import {
+  createRaceResultFile,
+  ResultFormat,
+  raceResultToCSV,
+} from "./raceResultExport";
+import type { SimulationConfig } from "./raceSimulation";
 import { RaceTrack } from "./raceTrack";
 import { RidersOverlay } from "./ridersOverlay";
-import { getCurrentTheme, getThemeConfig, type ThemeType } from "./themeConfig";
+import { Stable } from "./stable";
+import {
+  getCurrentTheme,
+  getThemeConfig,
+  saveTheme,
+  type ThemeType,
+} from "./themeConfig";
+import { Tournament, type TournamentRace } from "./tournament";
+import { WeatherEffects } from "./weatherEffects";
 
 // Screen state management
 const ScreenState = {
   MAIN: "main",
   RIDERS: "riders",
+  BETTING: "betting",
+  PLAYERS: "players",
+  TOURNAMENT: "tournament",
+  CHAMPIONSHIP: "championship",
+  TRAINING: "training",
+  MEETING: "meeting",
+  DRAW: "draw",
+  SECTIONALS: "sectionals",
   PODIUM: "podium",
+  REPLAY: "replay",
 } as const;
 
 type ScreenState = (typeof ScreenState)[keyof typeof ScreenState];
@@ -40,7 +79,6 @@ let wasLeaderboardOpen = true;
 const scene = new THREE.Scene();
 const currentTheme = getCurrentTheme();
 const themeConfig = getThemeConfig(currentTheme);
-scene.background = new THREE.Color(themeConfig.skyColor);
 
 // Camera setup
 const camera = new THREE.PerspectiveCamera(
@@ -74,6 +112,13 @@ directionalLight.shadow.camera.near = 0.5;
 directionalLight.shadow.camera.far = 500;
 scene.add(directionalLight);
 
+// Weather sets the sky, fog and sunlight
+const weatherEffects = new WeatherEffects(
+  scene,
+  directionalLight,
+  currentTheme,
+);
+
 // Ground plane (grass around the track)
 const groundGeometry = new THREE.PlaneGeometry(300, 300); // Much larger to hide edges
 const groundMaterial = new THREE.MeshStandardMaterial({
@@ -135,12 +180,12 @@ const freeFlyCamera = new FreeFlyCamera(camera);
 // Initialize debug overlay
 const debugOverlay = new DebugOverlay();
 
-// Set up theme change callback
-debugOverlay.setThemeChangeCallback((newTheme: ThemeType) => {
+// Restyle the scene for a new theme
+const applyTheme = (newTheme: ThemeType) => {
   const newConfig = getThemeConfig(newTheme);
 
-  // Update scene
-  scene.background = new THREE.Color(newConfig.skyColor);
+  // Update sky
+  weatherEffects.setTheme(newTheme);
 
   // Update ground color
   (ground.material as THREE.MeshStandardMaterial).color.setHex(
@@ -149,7 +194,14 @@ debugOverlay.setThemeChangeCallback((newTheme: ThemeType) => {
 
   // Update track barriers
   raceTrack.updateTheme(newTheme);
-});
+
+  // Snow is only in the seed's going draw for the Christmas theme
+  if (!raceManager.isRacing()) {
+    setupRace(horseEditor.getHorses());
+  }
+  horseEditor.refresh();
+};
+debugOverlay.setThemeChangeCallback(applyTheme);
 
 // Initialize leaderboard overlay
 const leaderboardOverlay = new LeaderboardOverlay();
@@ -160,30 +212,139 @@ const cameraIndicator = new CameraIndicator();
 // Initialize riders overlay
 const ridersOverlay = new RidersOverlay();
 
+// Initialize player profiles, betting and player leaderboard overlays
+const playerProfiles = new PlayerProfiles();
+const bettingOverlay = new BettingOverlay(playerProfiles);
+const playersOverlay = new PlayersOverlay(playerProfiles);
+
+// Initialize tournament bracket overlay
+const tournamentOverlay = new TournamentOverlay();
+
+// Initialize championship standings and overlay
+const championship = new Championship();
+const championshipOverlay = new ChampionshipOverlay(championship);
+
 // Initialize podium scene
 const podiumScene = new PodiumScene(camera);
 
 // Initialize photo finish system
 const photoFinish = new PhotoFinish();
 
+// Initialize replay controls
+const replayOverlay = new ReplayOverlay();
+
 new CreditsOverlay();
 
-// Initialize horse editor
-const trackLength = raceManager.getTrackLength();
-const horseEditor = new HorseEditor(trackLength);
+// Initialize stable, horse editor and training overlay
+const stable = new Stable();
+const horseEditor = new HorseEditor(raceManager.getLapLength(), stable);
+const trainingOverlay = new TrainingOverlay(stable);
+
+// Race with the newly trained stats, and without any injured horses
+trainingOverlay.setWeekCallback(() => horseEditor.syncFromStable());
+
+// Initialize race meeting card and overlay
+const meeting = new RaceMeeting();
+const meetingOverlay = new MeetingOverlay(meeting);
+
+// Gate draw ceremony
+const drawOverlay = new DrawOverlay();
+
+// Split times of the finished race
+const sectionalsOverlay = new SectionalsOverlay();
 
 // Set initial racer banners
 const initialHorses = raceManager.getHorses().map((h) => h.data);
 raceTrack.setRacers(initialHorses);
 
-// Listen for horse changes
-horseEditor.onHorsesChange((horses: HorseData[]) => {
-  const raceSeed = horseEditor.getRaceSeed();
-  raceManager.setHorses(horses, raceSeed);
+// Running tournament, and which of its races is loaded on the track
+let tournament: Tournament | null = null;
+let tournamentRace: TournamentRace | null = null;
+
+// Odds for the current field, worked out in the background after each change
+let currentOdds: HorseOdds[] | null = null;
+let oddsBoardTexture: THREE.CanvasTexture | null = null;
+let oddsAbort: AbortController | null = null;
+
+const showRiders = () => {
+  const meetingIndex = meeting.getCurrentIndex();
+  ridersOverlay.update(
+    horseEditor.getHorses(),
+    horseEditor.getGoing(),
+    horseEditor.getWeather(),
+    currentOdds,
+    meetingIndex !== null
+      ? `Race ${meetingIndex + 1} of ${meeting.getRaces().length}: ${meeting.getCurrentRace()?.name}`
+      : null,
+    new Map(
+      raceManager
+        .getHorses()
+        .map((horse) => [horse.data.id, horse.state.stall]),
+    ),
+  );
+};
+
+const refreshOdds = async (config: SimulationConfig) => {
+  // Stop working out odds for a field that has since changed
+  oddsAbort?.abort();
+  const abort = new AbortController();
+  oddsAbort = abort;
+
+  currentOdds = null;
+  oddsBoardTexture?.dispose();
+  oddsBoardTexture = null;
+  horseEditor.setOdds(null);
+  bettingOverlay.setField(config.horses, null);
+  if (config.horses.length === 0) return;
+
+  const odds = await calculateOddsAsync(
+    config,
+    raceTrack.getConfig(),
+    abort.signal,
+  );
+  if (!odds || abort.signal.aborted) return;
+
+  currentOdds = odds;
+  oddsBoardTexture = createOddsBoardTexture(odds, config.horses);
+  horseEditor.setOdds(odds);
+  bettingOverlay.setField(config.horses, odds);
+  if (ridersOverlay.isShown()) {
+    showRiders();
+  }
+};
+
+// Build the race from the editor settings
+const setupRace = (horses: HorseData[]) => {
+  const going = horseEditor.getGoing();
+  const weather = horseEditor.getWeather();
+  const config: SimulationConfig = {
+    raceSeed: horseEditor.getRaceSeed(),
+    distance: horseEditor.getRaceDistance(),
+    going,
+    weather,
+    drafting: horseEditor.getDrafting(),
+    deadHeatTolerance: horseEditor.getDeadHeatTolerance(),
+    horses,
+  };
+  raceManager.setRace(config);
+  bettingOverlay.setRace(hashRaceConfig(horseEditor.getRaceConfig()));
+  refreshOdds(config);
+  cameraController.setFinishLineProgress(raceManager.getCourse().raceDistance);
   raceManager.resetRace();
   raceTrack.setRacers(horses); // Update racer banners on track
+  raceTrack.setGoing(going);
+  raceTrack.setWeather(weather);
+  weatherEffects.setWeather(weather);
   setRaceActive(false); // Return spectators to calm animations when horses change
-});
+};
+
+// Listen for horse changes
+horseEditor.onHorsesChange(setupRace);
+
+// Show the going and weather before any horses are added
+raceTrack.setGoing(horseEditor.getGoing());
+raceTrack.setWeather(horseEditor.getWeather());
+weatherEffects.setWeather(horseEditor.getWeather());
 
 // Set up photo finish callback
 raceManager.setPhotoFinishCallback(() => {
@@ -206,6 +367,308 @@ raceManager.setPhotoFinishCallback(() => {
   photoFinish.capture(scene, renderer, getFinishLineCameraView);
 });
 
+// Pay out the bets and record tournament results once every horse is home
+raceManager.setRaceFinishCallback(() => {
+  const leaderboard = raceManager.getLeaderboard();
+  const result = raceManager.getResult();
+  const configHash = hashRaceConfig(horseEditor.getRaceConfig());
+  const settlement = bettingOverlay.settle(leaderboard, configHash);
+  if (settlement) {
+    console.log(`Settled ${settlement.bets.length} bets`);
+  }
+
+  // Close placings are settled by the photo
+  const verdicts = getPhotoVerdicts(result.finishers);
+  photoFinish.setVerdicts(verdicts);
+  verdicts.forEach((verdict) => {
+    console.log(verdict);
+  });
+
+  if (tournament && tournamentRace === tournament.getCurrentRace()) {
+    recordTournamentResult(
+      leaderboard.map((standing) => standing.horseId),
+      leaderboard.map((standing) => standing.position),
+    );
+  }
+
+  // A meeting goes straight from each race to its podium
+  if (meeting.isRunning()) {
+    showPodium();
+  }
+
+  // Update the career records of any stable horses that ran (once per race)
+  if (!stable.recordRace(result, configHash)) {
+    console.log("Race already in a stable career, not counted again there");
+  }
+  horseEditor.refresh();
+
+  if (championship.isActive()) {
+    const recorded = championship.recordRace(
+      leaderboard,
+      raceManager.getHorses().map((horse) => horse.data),
+      horseEditor.getRaceSeed(),
+      configHash,
+    );
+    if (!recorded) {
+      console.log("Race already in the championship, not recorded again");
+    }
+    championshipOverlay.refresh();
+  }
+});
+
+// Record the loaded tournament race, unless its field or seed was edited
+const recordTournamentResult = (finishOrder: string[], positions: number[]) => {
+  if (!tournament || !tournamentRace) return;
+
+  const raceIds = [...tournamentRace.horseIds].sort().join();
+  const fieldIds = raceManager
+    .getHorses()
+    .map((horse) => horse.data.id)
+    .sort()
+    .join();
+  if (
+    raceIds !== fieldIds ||
+    horseEditor.getRaceSeed() !== tournamentRace.raceSeed
+  ) {
+    console.warn(
+      `${tournamentRace.label} was edited before it was run, result not recorded`,
+    );
+    return;
+  }
+
+  tournament.recordResult(finishOrder, positions);
+  tournamentOverlay.update(tournament);
+  console.log(`${tournamentRace.label} result recorded`);
+};
+
+// Restore the main view and the overlays that were open before leaving it
+const returnToMain = () => {
+  currentScreen = ScreenState.MAIN;
+  ridersOverlay.hide();
+  bettingOverlay.hide();
+  playersOverlay.hide();
+  tournamentOverlay.hide();
+  championshipOverlay.hide();
+  trainingOverlay.hide();
+  meetingOverlay.hide();
+  drawOverlay.hide();
+  sectionalsOverlay.hide();
+  podiumScene.hide();
+  photoFinish.hide(); // Hide photo finish thumbnail when leaving podium
+
+  // Restore previous overlay states
+  horseEditor.show();
+  if (wasEditorOpen) {
+    horseEditor.open();
+  } else {
+    horseEditor.close();
+  }
+
+  if (wasLeaderboardOpen) {
+    leaderboardOverlay.show();
+  } else {
+    leaderboardOverlay.hide();
+  }
+
+  cameraIndicator.show(); // Show camera overlay when returning to main
+};
+
+// Load the next tournament race onto the track
+const goToNextTournamentRace = () => {
+  if (!tournament || raceManager.isRacing()) return;
+
+  const race = tournament.getCurrentRace();
+  if (!race) {
+    console.log(`Tournament won by ${tournament.getChampion()?.name}`);
+    return;
+  }
+
+  if (currentScreen === ScreenState.REPLAY) {
+    exitReplay();
+  }
+  if (currentScreen !== ScreenState.MAIN) {
+    returnToMain();
+  }
+
+  tournamentRace = race;
+  horseEditor.loadRace(tournament.getRaceHorses(race), race.raceSeed);
+  leaderboardOverlay.reset();
+  photoFinish.clear();
+  console.log(`Tournament: ${race.label}`);
+};
+
+tournamentOverlay.setCreateCallback((names, count, seed) => {
+  tournament = new Tournament(
+    horseEditor.generateField(seed, count, names),
+    seed,
+  );
+  tournamentRace = null;
+  tournamentOverlay.update(tournament);
+  console.log(`Tournament created with ${count} horses`);
+});
+tournamentOverlay.setNextRaceCallback(goToNextTournamentRace);
+tournamentOverlay.setEndCallback(() => {
+  tournament = null;
+  tournamentRace = null;
+  tournamentOverlay.update(null);
+});
+
+// Show the riders roster in place of the track
+const showRidersScreen = () => {
+  // Save overlay states if coming from main screen
+  if (currentScreen === ScreenState.MAIN) {
+    wasEditorOpen = horseEditor.isEditorOpen();
+    wasLeaderboardOpen = leaderboardOverlay.isShown();
+  }
+
+  currentScreen = ScreenState.RIDERS;
+  showRiders();
+  ridersOverlay.show();
+  horseEditor.hide();
+  leaderboardOverlay.hide();
+  console.log("Showing riders roster...");
+};
+
+// Show the top three on the podium, stopping the race if it is still running
+const showPodium = () => {
+  if (currentScreen === ScreenState.PODIUM) return;
+
+  // Save overlay states if coming from main screen
+  if (currentScreen === ScreenState.MAIN) {
+    wasEditorOpen = horseEditor.isEditorOpen();
+    wasLeaderboardOpen = leaderboardOverlay.isShown();
+  }
+
+  // Leave replay if one is playing
+  if (currentScreen === ScreenState.REPLAY) {
+    exitReplay();
+  }
+
+  // Stop race if currently racing
+  if (raceManager.isRacing()) {
+    raceManager.stopRace();
+  }
+
+  const horses = raceManager.getHorses();
+  if (horses.length >= 3) {
+    currentScreen = ScreenState.PODIUM;
+    // Everyone placed 1st to 3rd, dead heaters sharing a block
+    const leaderboard = raceManager.getLeaderboard();
+    const captions = getPodiumCaptions(leaderboard);
+    const placings = leaderboard
+      .filter((entry) => entry.position <= 3)
+      .flatMap((entry, index) => {
+        const horse = horses.find((h) => h.data.id === entry.horseId);
+        return horse
+          ? [{ horse, position: entry.position, caption: captions[index] }]
+          : [];
+      });
+
+    podiumScene.show(placings);
+    ridersOverlay.hide(); // Hide riders roster when showing podium
+    bettingOverlay.hide();
+    playersOverlay.hide();
+    tournamentOverlay.hide();
+    championshipOverlay.hide();
+    trainingOverlay.hide();
+    meetingOverlay.hide();
+    drawOverlay.hide();
+    sectionalsOverlay.hide();
+    horseEditor.hide();
+    leaderboardOverlay.hide();
+    photoFinish.show(); // Show photo finish thumbnail on podium
+    cameraIndicator.hide(); // Hide camera overlay on podium
+    console.log("Showing podium...");
+  }
+};
+
+// Load a race from the meeting card, switching theme if it has its own
+const loadMeetingRace = (race: MeetingRace) => {
+  if (race.theme && race.theme !== getCurrentTheme()) {
+    saveTheme(race.theme);
+    debugOverlay.refresh();
+    applyTheme(race.theme);
+  }
+  horseEditor.applyRaceConfig(race);
+  leaderboardOverlay.reset();
+  photoFinish.clear();
+};
+
+// Start the meeting or move on to its next race, opening with the riders roster
+const goToNextMeetingRace = () => {
+  if (raceManager.isRacing()) return;
+
+  const race = meeting.isRunning() ? meeting.advance() : meeting.start();
+  meetingOverlay.refresh();
+  if (!race) {
+    console.log(`${meeting.getName()} complete`);
+    return;
+  }
+
+  if (currentScreen === ScreenState.REPLAY) {
+    exitReplay();
+  }
+  if (currentScreen !== ScreenState.MAIN) {
+    returnToMain();
+  }
+
+  loadMeetingRace(race);
+  showRidersScreen();
+  console.log(`Meeting: ${race.name}`);
+};
+
+meetingOverlay.setCurrentRaceCallback(() => ({
+  raceSeed: horseEditor.getRaceSeed(),
+  distance: horseEditor.getRaceDistance(),
+  going: horseEditor.getGoing(),
+  weather: horseEditor.getWeather(),
+  drafting: horseEditor.getDrafting(),
+  deadHeatTolerance: horseEditor.getDeadHeatTolerance(),
+  horses: horseEditor.getHorses(),
+  theme: getCurrentTheme(),
+}));
+meetingOverlay.setLoadRaceCallback((race) => {
+  if (raceManager.isRacing()) return;
+  loadMeetingRace(race);
+  console.log(`Loaded ${race.name} into the editor`);
+});
+meetingOverlay.setNextRaceCallback(goToNextMeetingRace);
+meetingOverlay.setEndCallback(() => {
+  meeting.end();
+  meetingOverlay.refresh();
+});
+
+// Leave replay mode and return to the finished race
+const exitReplay = () => {
+  raceManager.stopReplay();
+  replayOverlay.hide();
+  currentScreen = ScreenState.MAIN;
+  console.log("Exiting replay...");
+};
+replayOverlay.setExitCallback(exitReplay);
+
+// Download the finished race's results as JSON or CSV
+const exportResults = (format: ResultFormat) => {
+  const file = createRaceResultFile(
+    raceManager.getResult(),
+    horseEditor.getRaceConfig(),
+    raceManager.getTrackDimensions(),
+  );
+  const blob =
+    format === ResultFormat.JSON
+      ? new Blob([JSON.stringify(file, null, 2)], { type: "application/json" })
+      : new Blob([raceResultToCSV(file)], { type: "text/csv" });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `reindeer-results-${file.raceSeed}-${file.date}.${format}`;
+  link.click();
+
+  URL.revokeObjectURL(url);
+};
+sectionalsOverlay.setExportCallback(exportResults);
+
 // Keyboard controls
 window.addEventListener("keydown", (event) => {
   const key = event.key.toLowerCase();
@@ -246,90 +709,305 @@ window.addEventListener("keydown", (event) => {
   // Show riders screen with 'Q' (only when not racing)
   if (key === "q") {
     if (currentScreen === ScreenState.MAIN && !raceManager.isRacing()) {
-      // Save overlay states
-      wasEditorOpen = horseEditor.isEditorOpen();
-      wasLeaderboardOpen = leaderboardOverlay.isShown();
+      showRidersScreen();
+    }
+    return;
+  }
 
-      currentScreen = ScreenState.RIDERS;
-      ridersOverlay.update(horseEditor.getHorses());
-      ridersOverlay.show();
+  // Show the gate draw ceremony with 'S' (from the track or the riders roster, only when not racing)
+  if (key === "s") {
+    if (
+      (currentScreen === ScreenState.MAIN ||
+        currentScreen === ScreenState.RIDERS) &&
+      !raceManager.isRacing() &&
+      raceManager.getHorses().length > 0
+    ) {
+      // Save overlay states if coming from main screen
+      if (currentScreen === ScreenState.MAIN) {
+        wasEditorOpen = horseEditor.isEditorOpen();
+        wasLeaderboardOpen = leaderboardOverlay.isShown();
+      }
+
+      currentScreen = ScreenState.DRAW;
+      drawOverlay.show(
+        raceManager.getHorses().map((horse) => ({
+          name: horse.data.name,
+          color: horse.data.color,
+          stall: horse.state.stall,
+        })),
+      );
+      ridersOverlay.hide();
       horseEditor.hide();
       leaderboardOverlay.hide();
-      console.log("Showing riders roster...");
+      console.log("Showing gate draw...");
     }
     return;
   }
 
-  // Show podium screen with 'W'
-  if (key === "w") {
-    if (currentScreen !== ScreenState.PODIUM) {
+  // Show the sectional times of the finished race with 'I' (from the track or podium)
+  if (key === "i") {
+    if (
+      (currentScreen === ScreenState.MAIN ||
+        currentScreen === ScreenState.PODIUM) &&
+      raceManager.getState() === RaceState.FINISHED
+    ) {
+      // Save overlay states if coming from main screen
+      if (currentScreen === ScreenState.MAIN) {
+        wasEditorOpen = horseEditor.isEditorOpen();
+        wasLeaderboardOpen = leaderboardOverlay.isShown();
+      }
+
+      currentScreen = ScreenState.SECTIONALS;
+      sectionalsOverlay.show(raceManager.getResult(), raceManager.getHorses());
+      podiumScene.hide();
+      photoFinish.hide();
+      horseEditor.hide();
+      leaderboardOverlay.hide();
+      console.log("Showing sectional times...");
+    }
+    return;
+  }
+
+  // Export the finished race's results as JSON and CSV with 'X' (from the track, podium or sectionals)
+  if (key === "x") {
+    if (
+      (currentScreen === ScreenState.MAIN ||
+        currentScreen === ScreenState.PODIUM ||
+        currentScreen === ScreenState.SECTIONALS) &&
+      raceManager.getState() === RaceState.FINISHED
+    ) {
+      exportResults(ResultFormat.JSON);
+      exportResults(ResultFormat.CSV);
+      console.log("Exported race results");
+    }
+    return;
+  }
+
+  // Show betting screen with 'B' (from the track or the riders roster, only when not racing)
+  if (key === "b") {
+    if (
+      (currentScreen === ScreenState.MAIN ||
+        currentScreen === ScreenState.RIDERS ||
+        currentScreen === ScreenState.PLAYERS) &&
+      !raceManager.isRacing()
+    ) {
       // Save overlay states if coming from main screen
       if (currentScreen === ScreenState.MAIN) {
         wasEditorOpen = horseEditor.isEditorOpen();
         wasLeaderboardOpen = leaderboardOverlay.isShown();
       }
 
-      // Stop race if currently racing
-      if (raceManager.isRacing()) {
-        raceManager.stopRace();
+      currentScreen = ScreenState.BETTING;
+      bettingOverlay.setField(horseEditor.getHorses(), currentOdds);
+      bettingOverlay.show();
+      ridersOverlay.hide();
+      playersOverlay.hide();
+      horseEditor.hide();
+      leaderboardOverlay.hide();
+      console.log("Showing betting...");
+    }
+    return;
+  }
+
+  // Show player leaderboard with 'M' (only when not racing)
+  if (key === "m") {
+    if (
+      (currentScreen === ScreenState.MAIN ||
+        currentScreen === ScreenState.BETTING) &&
+      !raceManager.isRacing()
+    ) {
+      // Save overlay states if coming from main screen
+      if (currentScreen === ScreenState.MAIN) {
+        wasEditorOpen = horseEditor.isEditorOpen();
+        wasLeaderboardOpen = leaderboardOverlay.isShown();
       }
 
-      const horses = raceManager.getHorses();
-      if (horses.length >= 3) {
-        currentScreen = ScreenState.PODIUM;
-        const leaderboard = raceManager.getLeaderboard();
-        const topThree = leaderboard
-          .slice(0, 3)
-          .map((entry) => horses.find((h) => h.data.name === entry.name)!)
-          .filter((h) => h !== undefined);
-
-        podiumScene.show(topThree);
-        ridersOverlay.hide(); // Hide riders roster when showing podium
-        horseEditor.hide();
-        leaderboardOverlay.hide();
-        photoFinish.show(); // Show photo finish thumbnail on podium
-        cameraIndicator.hide(); // Hide camera overlay on podium
-        console.log("Showing podium...");
+      currentScreen = ScreenState.PLAYERS;
+      playersOverlay.show();
+      bettingOverlay.hide();
+      horseEditor.hide();
+      leaderboardOverlay.hide();
+      console.log("Showing players...");
+    }
+    return;
+  }
+
+  // Show tournament builder or bracket with 'K' (from the track or podium, only when not racing)
+  if (key === "k") {
+    if (
+      (currentScreen === ScreenState.MAIN ||
+        currentScreen === ScreenState.PODIUM) &&
+      !raceManager.isRacing()
+    ) {
+      // Save overlay states if coming from main screen
+      if (currentScreen === ScreenState.MAIN) {
+        wasEditorOpen = horseEditor.isEditorOpen();
+        wasLeaderboardOpen = leaderboardOverlay.isShown();
       }
+
+      currentScreen = ScreenState.TOURNAMENT;
+      tournamentOverlay.show();
+      podiumScene.hide();
+      photoFinish.hide();
+      horseEditor.hide();
+      leaderboardOverlay.hide();
+      console.log("Showing tournament...");
     }
     return;
   }
 
-  // Return to main screen with 'A'
-  if (key === "a") {
-    if (currentScreen !== ScreenState.MAIN) {
-      currentScreen = ScreenState.MAIN;
-      ridersOverlay.hide();
+  // Show championship standings with 'C' (from the track or podium, only when not racing)
+  if (key === "c") {
+    if (
+      (currentScreen === ScreenState.MAIN ||
+        currentScreen === ScreenState.PODIUM) &&
+      !raceManager.isRacing()
+    ) {
+      // Save overlay states if coming from main screen
+      if (currentScreen === ScreenState.MAIN) {
+        wasEditorOpen = horseEditor.isEditorOpen();
+        wasLeaderboardOpen = leaderboardOverlay.isShown();
+      }
+
+      currentScreen = ScreenState.CHAMPIONSHIP;
+      championshipOverlay.show();
       podiumScene.hide();
-      photoFinish.hide(); // Hide photo finish thumbnail when leaving podium
+      photoFinish.hide();
+      horseEditor.hide();
+      leaderboardOverlay.hide();
+      console.log("Showing championship standings...");
+    }
+    return;
+  }
 
-      // Restore previous overlay states
-      horseEditor.show();
-      if (wasEditorOpen) {
-        horseEditor.open();
-      } else {
+  // Show stable training with 'G' (only when not racing)
+  if (key === "g") {
+    if (currentScreen === ScreenState.MAIN && !raceManager.isRacing()) {
+      // Save overlay states
+      wasEditorOpen = horseEditor.isEditorOpen();
+      wasLeaderboardOpen = leaderboardOverlay.isShown();
+
+      currentScreen = ScreenState.TRAINING;
+      trainingOverlay.show();
+      horseEditor.hide();
+      leaderboardOverlay.hide();
+      console.log("Showing training...");
+    }
+    return;
+  }
+
+  // Show the race meeting card with 'O' (from the track or podium, only when not racing)
+  if (key === "o") {
+    if (
+      (currentScreen === ScreenState.MAIN ||
+        currentScreen === ScreenState.PODIUM) &&
+      !raceManager.isRacing()
+    ) {
+      // Save overlay states if coming from main screen
+      if (currentScreen === ScreenState.MAIN) {
+        wasEditorOpen = horseEditor.isEditorOpen();
+        wasLeaderboardOpen = leaderboardOverlay.isShown();
+      }
+
+      currentScreen = ScreenState.MEETING;
+      meetingOverlay.show();
+      podiumScene.hide();
+      photoFinish.hide();
+      horseEditor.hide();
+      leaderboardOverlay.hide();
+      console.log("Showing race meeting...");
+    }
+    return;
+  }
+
+  // Go to the next meeting or tournament race with 'N' (straight from the podium, card or bracket)
+  if (key === "n") {
+    if (meeting.isRunning()) {
+      goToNextMeetingRace();
+    } else {
+      goToNextTournamentRace();
+    }
+    return;
+  }
+
+  // Show podium screen with 'W'
+  if (key === "w") {
+    showPodium();
+    return;
+  }
+
+  // Toggle replay of the finished race with 'V'
+  if (key === "v") {
+    if (currentScreen === ScreenState.REPLAY) {
+      exitReplay();
+    } else if (
+      currentScreen === ScreenState.MAIN &&
+      raceManager.startReplay()
+    ) {
+      const player = raceManager.getReplayPlayer();
+      if (player) {
+        currentScreen = ScreenState.REPLAY;
         horseEditor.close();
+        replayOverlay.attach(player);
+        replayOverlay.show();
+        console.log("Replaying race...");
       }
+    }
+    return;
+  }
 
-      if (wasLeaderboardOpen) {
-        leaderboardOverlay.show();
-      } else {
-        leaderboardOverlay.hide();
+  // Replay transport controls
+  if (currentScreen === ScreenState.REPLAY) {
+    const player = raceManager.getReplayPlayer();
+    if (player) {
+      if (key === " ") {
+        event.preventDefault();
+        player.togglePlay();
+        return;
+      }
+      if (key === "arrowleft") {
+        replayOverlay.scrubBackward();
+        return;
       }
+      if (key === "arrowright") {
+        replayOverlay.scrubForward();
+        return;
+      }
+      if (key === "arrowdown") {
+        player.slower();
+        return;
+      }
+      if (key === "arrowup") {
+        player.faster();
+        return;
+      }
+    }
+  }
 
-      cameraIndicator.show(); // Show camera overlay when returning to main
+  // Return to main screen with 'A'
+  if (key === "a") {
+    if (currentScreen === ScreenState.REPLAY) {
+      exitReplay();
+    } else if (currentScreen !== ScreenState.MAIN) {
+      returnToMain();
       console.log("Returning to main view...");
     }
     return;
   }
 
-  // Start race with 'P' (only if not racing and horses exist)
+  // Start race with 'P' (only if not racing and horses exist, also from the riders roster, betting screen or gate draw)
   if (key === "p") {
     if (
-      currentScreen === ScreenState.MAIN &&
+      (currentScreen === ScreenState.MAIN ||
+        currentScreen === ScreenState.RIDERS ||
+        currentScreen === ScreenState.BETTING ||
+        currentScreen === ScreenState.DRAW) &&
       !raceManager.isRacing() &&
       raceManager.getHorses().length > 0
     ) {
+      if (currentScreen !== ScreenState.MAIN) {
+        returnToMain();
+      }
       horseEditor.close(); // Close editor during race
       leaderboardOverlay.reset(); // Reset leaderboard
       raceManager.startRace();
@@ -356,6 +1034,9 @@ window.addEventListener("keydown", (event) => {
   // Reset race with 'R'
   if (key === "r") {
     if (raceManager.getHorses().length > 0) {
+      if (currentScreen === ScreenState.REPLAY) {
+        exitReplay();
+      }
       raceManager.resetRace();
       leaderboardOverlay.reset();
       photoFinish.clear(); // Clear photo finish on race reset
@@ -365,13 +1046,15 @@ window.addEventListener("keydown", (event) => {
     return;
   }
 
-  // Camera mode switching (disabled when editor is open or not on main screen)
-  if (horseEditor.isEditorOpen() || currentScreen !== ScreenState.MAIN) {
+  // Camera mode switching (disabled when editor is open or not watching the track)
+  if (
+    horseEditor.isEditorOpen() ||
+    (currentScreen !== ScreenState.MAIN && currentScreen !== ScreenState.REPLAY)
+  ) {
     return; // Don't process camera hotkeys when editor is open or not on main screen
   }
 
   const horses = raceManager.getHorses();
-  const leaderboard = raceManager.getLeaderboard();
 
   if (key === "0") {
     cameraController.setMode(CameraMode.ORBITAL);
@@ -386,27 +1069,45 @@ window.addEventListener("keydown", (event) => {
     cameraIndicator.update("finishLine");
     console.log("Camera: Finish Line View");
   } else if (key >= "1" && key <= "8") {
-    const horseIndex = parseInt(key, 10) - 1;
-    if (horseIndex < horses.length) {
-      const isRacing = raceManager.isRacing();
-      const leaderboardOrder = leaderboard.map((entry) => entry.name);
-      cameraController.setMode(
-        CameraMode.HORSE,
-        horseIndex,
-        undefined,
-        isRacing,
-        leaderboardOrder,
-      );
-      const horseName =
-        isRacing && horseIndex < leaderboardOrder.length
-          ? leaderboardOrder[horseIndex]
-          : horses[horseIndex].data.name;
-      cameraIndicator.update("horse", horseName);
-      console.log(`Camera: Horse ${key} View`);
-    }
+    selectHorseCamera(parseInt(key, 10) - 1);
+  } else if ((key === "[" || key === "]") && horses.length > 0) {
+    // Step through every horse, for fields bigger than the number keys reach
+    const step = key === "]" ? 1 : -1;
+    const current =
+      cameraController.getCurrentMode() === CameraMode.HORSE
+        ? cameraController.getSelectedHorseIndex()
+        : step > 0
+          ? -1
+          : 0;
+    selectHorseCamera((current + step + horses.length) % horses.length);
   }
 });
 
+// Follow a horse: the horse in that leaderboard position during a race, or that
+// horse in the field before it
+const selectHorseCamera = (horseIndex: number) => {
+  const horses = raceManager.getHorses();
+  if (horseIndex >= horses.length) return;
+
+  const isRacing = raceManager.isRacing() || raceManager.isReplaying();
+  const leaderboardOrder = raceManager
+    .getLeaderboard()
+    .map((entry) => entry.name);
+  cameraController.setMode(
+    CameraMode.HORSE,
+    horseIndex,
+    undefined,
+    isRacing,
+    leaderboardOrder,
+  );
+  const horseName =
+    isRacing && horseIndex < leaderboardOrder.length
+      ? leaderboardOrder[horseIndex]
+      : horses[horseIndex].data.name;
+  cameraIndicator.update("horse", horseName);
+  console.log(`Camera: Horse ${horseIndex + 1} View`);
+};
+
 // Handle window resize
 window.addEventListener("resize", () => {
   camera.aspect = window.innerWidth / window.innerHeight;
@@ -432,11 +1133,33 @@ function animate() {
   // Update spectator animations based on race state
   updateSpectatorAnimations(deltaTime);
 
-  // Update leaderboard if racing
-  if (raceManager.isRacing()) {
+  // Rain, snow and wind-blown dust
+  weatherEffects.update(deltaTime);
+
+  // Update leaderboard if racing or replaying
+  const isRaceLive = raceManager.isRacing() || raceManager.isReplaying();
+  if (isRaceLive) {
     const raceTime = raceManager.getRaceTime();
     const leaderboard = raceManager.getLeaderboard();
-    leaderboardOverlay.update(raceTime, leaderboard);
+    leaderboardOverlay.update(
+      raceTime,
+      leaderboard,
+      {
+        current: raceManager.getLeaderLap(),
+        total: raceManager.getCourse().totalLaps,
+      },
+      raceManager.getSplitPoints(),
+    );
+  }
+
+  // Show live slipstreams in the debug overlay
+  if (raceManager.isRacing() && debugOverlay.isShowing()) {
+    debugOverlay.updateDrafting(raceManager.getDrafting());
+  }
+
+  // Keep replay controls in sync with playback
+  if (currentScreen === ScreenState.REPLAY) {
+    replayOverlay.update();
   }
 
   // Get current horses and their data
@@ -444,9 +1167,9 @@ function animate() {
   const horsePositions = horses.map((horse) => horse.mesh.position);
   const trackCenter = new THREE.Vector3(0, 0, 0);
 
-  // Create track position function for camera
+  // Create track position function for camera (race progress along the current course)
   const getTrackPosition = (progress: number, laneOffset?: number) =>
-    raceTrack.getTrackPosition(progress, laneOffset);
+    raceManager.getTrackPosition(progress, laneOffset);
 
   // Get lead horse progress for follow camera
   const leadHorseProgress = raceManager.getLeadHorseProgress();
@@ -454,12 +1177,15 @@ function animate() {
   // Get leaderboard order for camera positioning during race
   const leaderboard = raceManager.getLeaderboard();
   const leaderboardOrderedHorses = leaderboard
-    .map((entry) => horses.find((h) => h.data.name === entry.name)!)
+    .map((entry) => horses.find((h) => h.data.id === entry.horseId)!)
     .filter((h) => h !== undefined);
   const leaderboardPositions = leaderboardOrderedHorses.map(
     (h) => h.mesh.position,
   );
-  const leaderboardProgress = leaderboardOrderedHorses.map((h) => h.progress);
+  const progressList = raceManager.getHorseProgressList();
+  const leaderboardProgress = leaderboardOrderedHorses.map(
+    (h) => progressList[horses.indexOf(h)],
+  );
   const horseNames = horses.map((h) => h.data.name);
   const leaderboardHorseNames = leaderboardOrderedHorses.map(
     (h) => h.data.name,
@@ -471,25 +1197,35 @@ function animate() {
   } else {
     // Update camera based on current mode
     cameraController.update(
-      raceManager.isRacing() ? leaderboardPositions : horsePositions,
+      isRaceLive ? leaderboardPositions : horsePositions,
       trackCenter,
       getTrackPosition,
       leadHorseProgress,
-      raceManager.isRacing()
-        ? leaderboardProgress
-        : horses.map((h) => h.progress),
-      raceManager.isRacing(),
-      raceManager.isRacing() ? leaderboardHorseNames : horseNames,
+      isRaceLive ? leaderboardProgress : progressList,
+      isRaceLive,
+      isRaceLive ? leaderboardHorseNames : horseNames,
     );
   }
 
   // Update big screen follow camera and render to texture
   const bigScreen = raceTrack.getBigScreen();
   if (bigScreen) {
-    if (horses.length > 0) {
+    const showOddsBoard =
+      oddsBoardTexture !== null &&
+      raceManager.getState() === RaceState.IDLE &&
+      !raceManager.isReplaying();
+
+    if (horses.length > 0 && showOddsBoard) {
+      // Show the odds until the race starts
+      if (bigScreen.screenMaterial.map !== oddsBoardTexture) {
+        bigScreen.screenMaterial.map = oddsBoardTexture;
+        bigScreen.screenMaterial.emissiveMap = oddsBoardTexture;
+        bigScreen.screenMaterial.needsUpdate = true;
+      }
+    } else if (horses.length > 0) {
       // Update the follow camera for the big screen
       bigScreen.updateFollowCamera(
-        raceManager.isRacing() ? leaderboardPositions : horsePositions,
+        isRaceLive ? leaderboardPositions : horsePositions,
         getTrackPosition,
         leadHorseProgress,
       );
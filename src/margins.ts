@@ -0,0 +1,125 @@
+/**
+ * Winning margins in racing language.
+ * Margins are measured in horse lengths: the time gap between two horses at
+ * the line times the beaten horse's speed, so a close finish between fast
+ * horses is a shorter margin than the same time gap between tired ones.
+ */
+
+const LENGTH = 1; // Track units in one horse length (a horse is a 1 unit cube)
+
+// Margins short of a length, longest first
+const SHORT_MARGINS: Array<{ below: number; label: string }> = [
+  { below: 0.1, label: "a nose" },
+  { below: 0.2, label: "a short head" },
+  { below: 0.3, label: "a head" },
+  { below: 0.45, label: "a neck" },
+];
+
+const DISTANCE_LENGTHS = 30; // Beyond this the margin is just "a distance"
+
+const FRACTIONS: Record<number, string> = {
+  0.25: "¼",
+  0.5: "½",
+  0.75: "¾",
+};
+
+/**
+ * Lengths a horse was beaten by, from the time gap at the line
+ * @param timeGap - Seconds between the two horses crossing the line
+ * @param speed - Speed of the beaten horse as it crossed
+ */
+export function getMarginLengths(timeGap: number, speed: number): number {
+  return (Math.max(0, timeGap) * speed) / LENGTH;
+}
+
+/**
+ * Lengths between two points on the track
+ */
+export function getDistanceLengths(distance: number): number {
+  return Math.max(0, distance) / LENGTH;
+}
+
+/**
+ * Describe a margin, e.g. "dead heat", "a nose", "a neck", "¾ length", "1¾ lengths".
+ * Rounded to quarter lengths up to 3, half lengths up to 10 and whole lengths beyond.
+ */
+export function formatMargin(lengths: number): string {
+  if (lengths <= 0) return "dead heat";
+
+  const short = SHORT_MARGINS.find((margin) => lengths < margin.below);
+  if (short) return short.label;
+  if (lengths >= DISTANCE_LENGTHS) return "a distance";
+
+  const step = lengths < 3 ? 0.25 : lengths < 10 ? 0.5 : 1;
+  const rounded = Math.max(0.5, Math.round(lengths / step) * step);
+  const whole = Math.floor(rounded);
+  const fraction = FRACTIONS[rounded - whole] ?? "";
+
+  return `${whole > 0 ? whole : ""}${fraction} ${rounded > 1 ? "lengths" : "length"}`;
+}
+
+const PLACINGS = ["1st", "2nd", "3rd"];
+
+/**
+ * Podium captions for every horse placed 1st to 3rd: what the winner won by
+ * and what each placed horse was beaten by, or the placing shared in a dead heat
+ * @param standings - Position and lengths behind the winner, in finishing order
+ */
+export function getPodiumCaptions(
+  standings: Array<{ position: number; lengthsBehind: number }>,
+): string[] {
+  const placed = standings.filter((standing) => standing.position <= 3);
+  return placed.map((standing, index) => {
+    const shared = standings.some(
+      (other, otherIndex) =>
+        otherIndex !== index && other.position === standing.position,
+    );
+    if (shared) return `Dead heat for ${PLACINGS[standing.position - 1]}`;
+
+    if (index > 0) return `Beaten ${formatMargin(standing.lengthsBehind)}`;
+    const second = standings[1];
+    return second ? `Won by ${formatMargin(second.lengthsBehind)}` : "";
+  });
+}
+
+function joinNames(names: string[]): string {
+  return names.length > 1
+    ? `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`
+    : names.join("");
+}
+
+/**
+ * The judge's verdicts on placings settled by the photo, e.g.
+ * "Photo: Comet 1st by a nose from Dasher" or "Dead heat for 2nd: Vixen and Cupid"
+ * @param finishers - Race result in finishing order (see RaceResultEntry)
+ */
+export function getPhotoVerdicts(
+  finishers: Array<{
+    position: number;
+    name: string;
+    margin: string | null;
+    photo: boolean;
+  }>,
+): string[] {
+  const verdicts: string[] = [];
+
+  PLACINGS.forEach((placing, index) => {
+    const placed = finishers.filter(
+      (finisher) => finisher.position === index + 1,
+    );
+    if (placed.length > 1) {
+      verdicts.push(
+        `Dead heat for ${placing}: ${joinNames(placed.map((f) => f.name))}`,
+      );
+    } else if (placed.length === 1) {
+      const next = finishers[finishers.indexOf(placed[0]) + 1];
+      if (next?.photo) {
+        verdicts.push(
+          `Photo: ${placed[0].name} ${placing} by ${next.margin} from ${next.name}`,
+        );
+      }
+    }
+  });
+
+  return verdicts;
+}
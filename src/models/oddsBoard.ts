@@ -0,0 +1,74 @@
+import * as THREE from "three";
+import { FONT } from "../constants";
+import type { HorseData } from "../horseStats";
+import type { HorseOdds } from "../oddsCalculator";
+
+/**
+ * Draw the pre-race odds board for the big screen
+ * @param odds - Odds for the field, favourite first
+ * @param horses - Field, for each horse's colour
+ * @returns Texture sized and flipped to match the big screen feed
+ */
+export function createOddsBoardTexture(
+  odds: HorseOdds[],
+  horses: HorseData[],
+): THREE.CanvasTexture {
+  const canvas = document.createElement("canvas");
+  canvas.width = 1280;
+  canvas.height = 720;
+  const context = canvas.getContext("2d")!;
+
+  // Background
+  context.fillStyle = "#101820";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+
+  // Title
+  context.fillStyle = "#4ecdc4";
+  context.font = `bold 72px ${FONT}`;
+  context.textAlign = "center";
+  context.textBaseline = "middle";
+  context.fillText("TODAY'S ODDS", canvas.width / 2, 70);
+
+  // Column headings
+  const nameX = 140;
+  const oddsX = 900;
+  const chanceX = 1180;
+  context.fillStyle = "#888888";
+  context.font = `bold 28px ${FONT}`;
+  context.textAlign = "left";
+  context.fillText("HORSE", nameX, 145);
+  context.textAlign = "right";
+  context.fillText("ODDS", oddsX, 145);
+  context.fillText("WIN", chanceX, 145);
+
+  // One row per horse
+  const rowHeight = Math.min(68, 540 / Math.max(1, odds.length));
+  odds.forEach((entry, index) => {
+    const y = 200 + rowHeight * (index + 0.5);
+    const horse = horses.find((h) => h.id === entry.horseId);
+
+    // Colour swatch
+    context.fillStyle = `#${(horse?.color ?? 0xffffff).toString(16).padStart(6, "0")}`;
+    context.fillRect(80, y - rowHeight * 0.3, 40, rowHeight * 0.6);
+
+    context.fillStyle = "#ffffff";
+    context.font = `bold ${Math.round(rowHeight * 0.55)}px ${FONT}`;
+    context.textAlign = "left";
+    context.fillText(entry.name, nameX, y);
+
+    context.fillStyle = "#ffe66d";
+    context.textAlign = "right";
+    context.fillText(entry.fractionalOdds, oddsX, y);
+
+    context.fillStyle = "#aaaaaa";
+    context.fillText(`${(entry.win * 100).toFixed(1)}%`, chanceX, y);
+  });
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  // The screen faces back toward the camera, so flip like the camera feed
+  texture.wrapS = THREE.RepeatWrapping;
+  texture.repeat.x = -1;
+  texture.needsUpdate = true;
+  return texture;
+}
@@ -0,0 +1,181 @@
+import * as THREE from "three";
+import { FONT } from "../constants";
+
+/**
+ * Starting gate: a numbered stall for each horse with front doors that swing
+ * open on "GO". Once the field has broken the gate is taken off the track so
+ * it isn't in the way on later laps.
+ */
+
+const STALL_LENGTH = 1.8; // Depth of a stall, back to front doors
+const STALL_HEIGHT = 1.6;
+const FRAME_THICKNESS = 0.08;
+const DOOR_GAP = 0.6; // Doors stand just in front of the horse's nose
+const DOOR_OPEN_TIME = 0.25; // Seconds for the doors to swing fully open
+const CLEAR_DELAY = 3; // Seconds after opening before the gate is taken away
+
+export interface StartingStall {
+  stall: number; // Number shown above the doors
+  position: THREE.Vector3; // Where the horse stands on the track
+  rotation: number; // Y rotation facing the direction of travel
+  width: number; // Width across the track
+}
+
+interface GateDoor {
+  pivot: THREE.Object3D; // Hinge at the side of the stall
+  side: 1 | -1; // Which way the door swings to open forward
+}
+
+export class StartingGate {
+  private group: THREE.Group;
+  private doors: GateDoor[] = [];
+  private timeSinceOpen: number | null = null; // null while closed
+
+  constructor(stalls: StartingStall[]) {
+    this.group = new THREE.Group();
+    this.group.userData.isStartingGate = true;
+
+    const frameMaterial = new THREE.MeshStandardMaterial({
+      color: 0xd0d0d0,
+      roughness: 0.5,
+      metalness: 0.6,
+    });
+    const doorMaterial = new THREE.MeshStandardMaterial({
+      color: 0x2e7d32,
+      roughness: 0.6,
+      metalness: 0.3,
+    });
+
+    stalls.forEach((stall) => {
+      this.group.add(this.createStall(stall, frameMaterial, doorMaterial));
+    });
+  }
+
+  /**
+   * Build one stall facing +Z (the direction of travel) before rotating it into place
+   */
+  private createStall(
+    stall: StartingStall,
+    frameMaterial: THREE.Material,
+    doorMaterial: THREE.Material,
+  ): THREE.Group {
+    const group = new THREE.Group();
+    group.position.set(stall.position.x, 0, stall.position.z);
+    group.rotation.y = stall.rotation;
+
+    const centerZ = DOOR_GAP - STALL_LENGTH / 2;
+
+    // Partitions either side
+    for (const side of [-1, 1]) {
+      const partition = new THREE.Mesh(
+        new THREE.BoxGeometry(FRAME_THICKNESS, STALL_HEIGHT, STALL_LENGTH),
+        frameMaterial,
+      );
+      partition.position.set(
+        (side * stall.width) / 2,
+        STALL_HEIGHT / 2,
+        centerZ,
+      );
+      partition.castShadow = true;
+      group.add(partition);
+    }
+
+    // Roof beam
+    const beam = new THREE.Mesh(
+      new THREE.BoxGeometry(stall.width, FRAME_THICKNESS * 2, STALL_LENGTH),
+      frameMaterial,
+    );
+    beam.position.set(0, STALL_HEIGHT, centerZ);
+    beam.castShadow = true;
+    group.add(beam);
+
+    // Two half doors hinged at the partitions
+    const doorWidth = stall.width / 2 - FRAME_THICKNESS;
+    for (const side of [-1, 1] as const) {
+      const pivot = new THREE.Object3D();
+      pivot.position.set((side * stall.width) / 2, 0, DOOR_GAP);
+
+      const door = new THREE.Mesh(
+        new THREE.BoxGeometry(doorWidth, STALL_HEIGHT * 0.7, 0.05),
+        doorMaterial,
+      );
+      door.position.set((-side * doorWidth) / 2, STALL_HEIGHT * 0.45, 0);
+      door.castShadow = true;
+      pivot.add(door);
+      group.add(pivot);
+      this.doors.push({ pivot, side });
+    }
+
+    // Stall number on the front of the roof beam
+    const plate = this.createNumberPlate(stall.stall, stall.width);
+    plate.position.set(0, STALL_HEIGHT, DOOR_GAP + FRAME_THICKNESS + 0.01);
+    group.add(plate);
+
+    return group;
+  }
+
+  private createNumberPlate(stall: number, stallWidth: number): THREE.Mesh {
+    const canvas = document.createElement("canvas");
+    canvas.width = 128;
+    canvas.height = 64;
+    const context = canvas.getContext("2d")!;
+
+    context.fillStyle = "#ffffff";
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.fillStyle = "#000000";
+    context.font = `bold 48px ${FONT}`;
+    context.textAlign = "center";
+    context.textBaseline = "middle";
+    context.fillText(`${stall}`, canvas.width / 2, canvas.height / 2);
+
+    const texture = new THREE.CanvasTexture(canvas);
+    const width = Math.min(0.6, stallWidth * 0.6);
+    return new THREE.Mesh(
+      new THREE.PlaneGeometry(width, width / 2),
+      new THREE.MeshBasicMaterial({ map: texture }),
+    );
+  }
+
+  public getGroup(): THREE.Group {
+    return this.group;
+  }
+
+  /**
+   * Swing the doors open (animated by update)
+   */
+  public open(): void {
+    if (this.timeSinceOpen === null) {
+      this.timeSinceOpen = 0;
+    }
+  }
+
+  /**
+   * Shut the doors and put the gate back on the track
+   */
+  public close(): void {
+    this.timeSinceOpen = null;
+    this.group.visible = true;
+    this.setDoorAngle(0);
+  }
+
+  public update(deltaTime: number): void {
+    if (this.timeSinceOpen === null) return;
+
+    this.timeSinceOpen += deltaTime;
+    this.setDoorAngle(Math.min(1, this.timeSinceOpen / DOOR_OPEN_TIME));
+
+    // The field is well clear by now
+    if (this.timeSinceOpen > CLEAR_DELAY) {
+      this.group.visible = false;
+    }
+  }
+
+  /**
+   * @param amount - 0 shut, 1 fully open
+   */
+  private setDoorAngle(amount: number): void {
+    this.doors.forEach((door) => {
+      door.pivot.rotation.y = door.side * (Math.PI / 2) * amount;
+    });
+  }
+}
@@ -0,0 +1,247 @@
+import {
+  drawStalls,
+  RaceSimulation,
+  type SimulationConfig,
+  type TrackDimensions,
+} from "./raceSimulation";
+import { createRandom, RandomStream, type SeededRandom } from "./utils/random";
+
+/**
+ * Monte Carlo odds for a field.
+ * Runs the same race many times with different in-race randomness (variance
+ * and final kick) and counts how often each horse wins, places and shows.
+ */
+
+export const DEFAULT_ODDS_TRIALS = 200;
+
+export interface HorseOdds {
+  horseId: string;
+  name: string;
+  win: number; // Chance of finishing 1st (0-1)
+  place: number; // Chance of finishing in the top 2
+  show: number; // Chance of finishing in the top 3
+  decimalOdds: number; // Fair decimal odds for a win (stake included)
+  fractionalOdds: string; // Nearest bookmaker fraction, e.g. "5/2"
+}
+
+// Longest odds offered, for horses that never won a trial
+const MAX_DECIMAL_ODDS = 501;
+const MAX_TRIAL_TIME = 600; // Safety cut-off in seconds of race time
+
+// Fractions bookmakers quote, shortest to longest
+const BOOKMAKER_FRACTIONS: [number, number][] = [
+  [1, 100],
+  [1, 50],
+  [1, 20],
+  [1, 10],
+  [1, 5],
+  [1, 4],
+  [2, 7],
+  [1, 3],
+  [2, 5],
+  [1, 2],
+  [4, 7],
+  [4, 6],
+  [8, 11],
+  [4, 5],
+  [10, 11],
+  [1, 1],
+  [11, 10],
+  [6, 5],
+  [5, 4],
+  [11, 8],
+  [6, 4],
+  [13, 8],
+  [7, 4],
+  [15, 8],
+  [2, 1],
+  [9, 4],
+  [5, 2],
+  [11, 4],
+  [3, 1],
+  [10, 3],
+  [7, 2],
+  [4, 1],
+  [9, 2],
+  [5, 1],
+  [11, 2],
+  [6, 1],
+  [13, 2],
+  [7, 1],
+  [15, 2],
+  [8, 1],
+  [9, 1],
+  [10, 1],
+  [11, 1],
+  [12, 1],
+  [14, 1],
+  [16, 1],
+  [20, 1],
+  [25, 1],
+  [33, 1],
+  [40, 1],
+  [50, 1],
+  [66, 1],
+  [100, 1],
+  [200, 1],
+  [500, 1],
+];
+
+/**
+ * Simulate the race repeatedly and work out each horse's chances
+ * @param config - Race to price (its seed picks the trial seeds, so odds are reproducible)
+ * @param dimensions - Track dimensions
+ * @param trials - Number of races to run
+ * @returns Odds for every horse, favourite first
+ */
+export function calculateOdds(
+  config: SimulationConfig,
+  dimensions: TrackDimensions,
+  trials: number = DEFAULT_ODDS_TRIALS,
+): HorseOdds[] {
+  const tally = new OddsTally(config, dimensions);
+  for (let trial = 0; trial < trials; trial++) {
+    tally.runTrial();
+  }
+  return tally.getOdds();
+}
+
+/**
+ * Same as calculateOdds, but runs the trials in small batches and yields
+ * between them so the page keeps rendering while the odds are worked out
+ * @param signal - Abort to stop early (e.g. the field changed), resolves to null
+ */
+export async function calculateOddsAsync(
+  config: SimulationConfig,
+  dimensions: TrackDimensions,
+  signal?: AbortSignal,
+  trials: number = DEFAULT_ODDS_TRIALS,
+  batchSize: number = 4,
+): Promise<HorseOdds[] | null> {
+  const tally = new OddsTally(config, dimensions);
+  for (let trial = 0; trial < trials; trial++) {
+    tally.runTrial();
+    if ((trial + 1) % batchSize === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      if (signal?.aborted) return null;
+    }
+  }
+  return tally.getOdds();
+}
+
+/**
+ * Win, place and show counts over a run of trial races
+ */
+class OddsTally {
+  private config: SimulationConfig;
+  private dimensions: TrackDimensions;
+  private trialRandom: SeededRandom;
+  private stalls: number[];
+  private trials: number = 0;
+  private counts = new Map<
+    string,
+    { win: number; place: number; show: number }
+  >();
+
+  constructor(config: SimulationConfig, dimensions: TrackDimensions) {
+    this.config = config;
+    this.dimensions = dimensions;
+    this.trialRandom = createRandom(config.raceSeed, RandomStream.ODDS);
+    this.stalls =
+      config.stalls ?? drawStalls(config.raceSeed, config.horses.length);
+    config.horses.forEach((horse) => {
+      this.counts.set(horse.id, { win: 0, place: 0, show: 0 });
+    });
+  }
+
+  /**
+   * Run one race. The field, gate draw, going and weather stay fixed; only the in-race randomness changes.
+   */
+  public runTrial(): void {
+    const simulation = new RaceSimulation(
+      {
+        ...this.config,
+        raceSeed: this.trialRandom.int(2 ** 31),
+        stalls: this.stalls,
+      },
+      this.dimensions,
+    );
+
+    // Only the first three home matter, so stop once they're in
+    const placings = Math.min(3, this.config.horses.length);
+    const countFinished = () =>
+      simulation.getHorses().filter((horse) => horse.hasFinished).length;
+    while (
+      countFinished() < placings &&
+      simulation.getRaceTime() < MAX_TRIAL_TIME
+    ) {
+      simulation.step();
+    }
+
+    simulation
+      .getResult()
+      .finishers.slice(0, placings)
+      .forEach((finisher) => {
+        const count = this.counts.get(finisher.horseId);
+        if (!count || finisher.finishTime === null) return;
+        if (finisher.position === 1) count.win++;
+        if (finisher.position <= 2) count.place++;
+        count.show++;
+      });
+    this.trials++;
+  }
+
+  /**
+   * Odds for every horse, favourite first
+   */
+  public getOdds(): HorseOdds[] {
+    const share = (count: number) =>
+      this.trials > 0 ? count / this.trials : 0;
+
+    return this.config.horses
+      .map((horse) => {
+        const count = this.counts.get(horse.id) ?? {
+          win: 0,
+          place: 0,
+          show: 0,
+        };
+        const decimalOdds = toDecimalOdds(share(count.win));
+        return {
+          horseId: horse.id,
+          name: horse.name,
+          win: share(count.win),
+          place: share(count.place),
+          show: share(count.show),
+          decimalOdds,
+          fractionalOdds: toFractionalOdds(decimalOdds),
+        };
+      })
+      .sort((a, b) => b.win - a.win || b.show - a.show);
+  }
+}
+
+/**
+ * Fair decimal odds for a probability (capped for horses that never won)
+ */
+export function toDecimalOdds(probability: number): number {
+  if (probability <= 0) return MAX_DECIMAL_ODDS;
+  return Math.min(MAX_DECIMAL_ODDS, 1 / probability);
+}
+
+/**
+ * Closest bookmaker fraction to decimal odds ("Evens" for 1/1)
+ */
+export function toFractionalOdds(decimalOdds: number): string {
+  const target = decimalOdds - 1;
+  let best = BOOKMAKER_FRACTIONS[0];
+  for (const fraction of BOOKMAKER_FRACTIONS) {
+    const value = fraction[0] / fraction[1];
+    if (Math.abs(value - target) < Math.abs(best[0] / best[1] - target)) {
+      best = fraction;
+    }
+  }
+
+  const [numerator, denominator] = best;
+  if (numerator === denominator) return "Evens";
+  return `${numerator}/${denominator}`;
+}
@@ -0,0 +1,323 @@
+import type { HorseData } from "../horseStats";
+import type { HorseOdds } from "../oddsCalculator";
+import {
+  BET_SELECTION_SIZE,
+  BET_TYPE_LABELS,
+  BET_TYPES,
+  type Bet,
+  BetType,
+  getPlayerTotals,
+  getPoolTotals,
+  type Settlement,
+  settleBets,
+  toFinishingOrder,
+} from "../pariMutuel";
+import type { PlayerProfiles } from "../playerProfiles";
+import type { LeaderboardStanding } from "../raceSimulation";
+import {
+  type BetRowData,
+  bettingOverlayStyles,
+  renderBettingContent,
+} from "./bettingOverlayTemplates";
+
+/**
+ * Betting screen shown between the riders roster and the race start.
+ * Holds the book of bets for the next race and settles it from the finishing order.
+ * A book is locked to the race setup its first bet was placed on (see
+ * hashRaceConfig), and a setup that has already been run takes no bets, as
+ * its result is known.
+ */
+export class BettingOverlay {
+  private overlayElement: HTMLDivElement;
+  private isVisible: boolean = false;
+  private profiles: PlayerProfiles;
+  private runners: HorseData[] = [];
+  private horseNames = new Map<string, string>(); // Every horse seen, so scratched horses keep their names
+  private odds: HorseOdds[] | null = null;
+  private bets: Bet[] = [];
+  private raceHash: string | null = null; // Race setup loaded now
+  private bookHash: string | null = null; // Race setup the bets were placed on
+  private runRaces = new Set<string>(); // Race setups already run this session
+  private settlement: Settlement | null = null; // Set once this book is settled
+  private lastSettlement: Settlement | null = null; // Previous book, shown until another settles
+  private betType: BetType = BetType.WIN;
+  private playerId: string = "";
+  private error: string | null = null;
+  private nextBetId: number = 1;
+
+  constructor(profiles: PlayerProfiles) {
+    this.profiles = profiles;
+    this.overlayElement = this.createOverlay();
+    document.body.appendChild(this.overlayElement);
+  }
+
+  private createOverlay(): HTMLDivElement {
+    const overlay = document.createElement("div");
+    overlay.id = "betting-overlay";
+    overlay.style.cssText = bettingOverlayStyles;
+
+    // Typing a name or stake shouldn't trigger the keyboard shortcuts
+    overlay.addEventListener("keydown", (event) => {
+      if (event.target instanceof HTMLInputElement) {
+        event.stopPropagation();
+      }
+    });
+    return overlay;
+  }
+
+  /**
+   * Update the runners (and their odds). Bets on horses no longer running are refunded at settlement.
+   */
+  public setField(horses: HorseData[], odds: HorseOdds[] | null): void {
+    this.runners = horses;
+    this.odds = odds;
+    horses.forEach((horse) => {
+      this.horseNames.set(horse.id, horse.name);
+    });
+    if (this.isVisible) this.render();
+  }
+
+  /**
+   * Set the race setup new bets are placed on. A different race opens a new
+   * book: bets placed on the old one are dropped (nothing has been staked
+   * until a book settles) and a settled book stays on show as the last race.
+   * @param raceHash - Hash of the race file (see hashRaceConfig)
+   */
+  public setRace(raceHash: string): void {
+    this.raceHash = raceHash;
+    if (this.bookHash !== null && this.bookHash !== raceHash) {
+      if (this.settlement) this.lastSettlement = this.settlement;
+      this.bets = [];
+      this.bookHash = null;
+      this.settlement = null;
+    }
+    if (this.isVisible) this.render();
+  }
+
+  /**
+   * Settle the book from the finishing order and pay the players' wallets.
+   * Does nothing if there are no bets, the book has already been settled or
+   * its bets were placed on a different race setup.
+   * @param raceHash - Hash of the race file that was run (see hashRaceConfig)
+   */
+  public settle(
+    standings: LeaderboardStanding[],
+    raceHash: string,
+  ): Settlement | null {
+    this.runRaces.add(raceHash);
+    if (
+      this.bets.length === 0 ||
+      this.settlement ||
+      this.bookHash !== raceHash
+    ) {
+      return null;
+    }
+
+    this.settlement = settleBets(
+      this.bets,
+      toFinishingOrder(standings),
+      new Set(this.runners.map((horse) => horse.id)),
+    );
+    this.profiles.applySettlement(this.settlement, (horseId) =>
+      this.getHorseName(horseId),
+    );
+    if (this.isVisible) this.render();
+    return this.settlement;
+  }
+
+  /**
+   * True once the book has been settled (until a different race opens a new one)
+   */
+  public isSettled(): boolean {
+    return this.settlement !== null;
+  }
+
+  private render(): void {
+    const runnerIds = new Set(this.runners.map((horse) => horse.id));
+    const oddsById = new Map(this.odds?.map((entry) => [entry.horseId, entry]));
+    const isLive = (bet: Bet) => bet.selection.every((id) => runnerIds.has(id));
+    const liveBets = this.bets.filter(isLive);
+    const winPool = getPoolTotals(liveBets, BetType.WIN);
+
+    const settledBets = new Map(
+      this.settlement?.bets.map((settled) => [settled.bet.id, settled]),
+    );
+    const bets: BetRowData[] = this.bets.map((bet) => {
+      const settled = settledBets.get(bet.id);
+      return {
+        id: bet.id,
+        player: this.getPlayerName(bet.player),
+        type: BET_TYPE_LABELS[bet.type],
+        selection: bet.selection.map((id) => this.getHorseName(id)).join(" > "),
+        stake: bet.stake,
+        scratched: !isLive(bet),
+        outcome: settled?.outcome ?? null,
+        payout: settled?.payout ?? 0,
+      };
+    });
+
+    this.overlayElement.innerHTML = renderBettingContent({
+      runners: this.runners.map((horse) => {
+        const stake = winPool.bySelection.get(horse.id) ?? 0;
+        return {
+          id: horse.id,
+          name: horse.name,
+          color: horse.color,
+          odds: oddsById.get(horse.id)?.fractionalOdds ?? null,
+          winPoolStake: stake,
+          probablePayout: stake > 0 ? winPool.total / stake : null,
+        };
+      }),
+      betType: this.betType,
+      betTypes: BET_TYPES.map((type) => ({
+        value: type,
+        label: BET_TYPE_LABELS[type],
+      })),
+      selectionSize: BET_SELECTION_SIZE[this.betType],
+      players: this.profiles.getProfiles().map((profile) => ({
+        id: profile.id,
+        name: profile.name,
+        available: this.getAvailable(profile.id),
+      })),
+      playerId: this.playerId,
+      bets,
+      pools: BET_TYPES.map((type) => ({
+        label: BET_TYPE_LABELS[type],
+        total: getPoolTotals(liveBets, type).total,
+      })),
+      bookOpen: this.raceHash !== null && !this.runRaces.has(this.raceHash),
+      playerTotals: this.settlement
+        ? this.toPlayerTotals(this.settlement)
+        : null,
+      lastRaceTotals:
+        !this.settlement && this.lastSettlement
+          ? this.toPlayerTotals(this.lastSettlement)
+          : null,
+      error: this.error,
+    });
+
+    this.attachEventListeners();
+  }
+
+  private toPlayerTotals(
+    settlement: Settlement,
+  ): { player: string; net: number }[] {
+    return [...getPlayerTotals(settlement)].map(([player, net]) => ({
+      player: this.getPlayerName(player),
+      net,
+    }));
+  }
+
+  private attachEventListeners(): void {
+    const typeSelect = this.overlayElement.querySelector(
+      "#betType",
+    ) as HTMLSelectElement | null;
+    typeSelect?.addEventListener("change", () => {
+      this.betType = typeSelect.value as BetType;
+      this.rememberPlayer();
+      this.error = null;
+      this.render();
+    });
+
+    this.overlayElement
+      .querySelector("#placeBet")
+      ?.addEventListener("click", () => this.placeBet());
+
+    this.overlayElement.querySelectorAll(".removeBet").forEach((button) => {
+      button.addEventListener("click", () => {
+        const betId = (button as HTMLElement).getAttribute("data-bet-id");
+        this.bets = this.bets.filter((bet) => bet.id !== betId);
+        if (this.bets.length === 0) this.bookHash = null;
+        this.render();
+      });
+    });
+  }
+
+  private rememberPlayer(): void {
+    const playerSelect = this.overlayElement.querySelector(
+      "#betPlayer",
+    ) as HTMLSelectElement | null;
+    if (playerSelect) {
+      this.playerId = playerSelect.value;
+    }
+  }
+
+  /**
+   * Player's balance less what they've already staked in this book
+   */
+  private getAvailable(playerId: string): number {
+    const balance = this.profiles.getProfile(playerId)?.balance ?? 0;
+    if (this.settlement) return balance;
+    const staked = this.bets
+      .filter((bet) => bet.player === playerId)
+      .reduce((sum, bet) => sum + bet.stake, 0);
+    return Math.round((balance - staked) * 100) / 100;
+  }
+
+  private placeBet(): void {
+    this.rememberPlayer();
+    const stakeInput = this.overlayElement.querySelector(
+      "#betStake",
+    ) as HTMLInputElement;
+    const stake = Math.round(parseFloat(stakeInput.value) * 100) / 100;
+
+    const selection = Array.from(
+      { length: BET_SELECTION_SIZE[this.betType] },
+      (_, index) =>
+        (
+          this.overlayElement.querySelector(
+            `#betPick${index}`,
+          ) as HTMLSelectElement
+        ).value,
+    );
+
+    if (this.raceHash === null || this.runRaces.has(this.raceHash)) {
+      this.error = "This race has already been run, so its result is known.";
+    } else if (!this.profiles.getProfile(this.playerId)) {
+      this.error = "Pick a player.";
+    } else if (!(stake > 0)) {
+      this.error = "Stake must be more than 0.";
+    } else if (stake > this.getAvailable(this.playerId)) {
+      this.error = "Not enough left in the wallet for that stake.";
+    } else if (new Set(selection).size !== selection.length) {
+      this.error = "Pick a different horse for each place.";
+    } else {
+      this.error = null;
+      this.bookHash = this.raceHash;
+      this.bets.push({
+        id: `bet-${this.nextBetId++}`,
+        player: this.playerId,
+        type: this.betType,
+        selection,
+        stake,
+      });
+    }
+
+    this.render();
+  }
+
+  private getPlayerName(playerId: string): string {
+    return this.profiles.getProfile(playerId)?.name ?? "Unknown";
+  }
+
+  private getHorseName(horseId: string): string {
+    return this.horseNames.get(horseId) ?? "Unknown";
+  }
+
+  public show(): void {
+    this.isVisible = true;
+    this.error = null;
+    this.render();
+    this.overlayElement.style.display = "flex";
+  }
+
+  public hide(): void {
+    this.rememberPlayer();
+    this.isVisible = false;
+    this.overlayElement.style.display = "none";
+  }
+
+  public isShown(): boolean {
+    return this.isVisible;
+  }
+}
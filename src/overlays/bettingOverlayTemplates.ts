@@ -0,0 +1,302 @@
+import type { BetOutcome, BetType } from "../pariMutuel";
+
+export const bettingOverlayStyles = `
+  position: fixed;
+  top: 0;
+  left: 0;
+  width: 100%;
+  height: 100%;
+  background: rgba(0, 0, 0, 0.85);
+  display: none;
+  align-items: center;
+  justify-content: center;
+  z-index: 1500;
+`;
+
+const inputStyles =
+  "padding: 6px; background: #333; color: white; border: 1px solid #555;";
+
+export interface RunnerData {
+  id: string;
+  name: string;
+  color: number;
+  odds: string | null; // Fractional odds from the simulation, null while calculating
+  winPoolStake: number; // Staked on this horse in the win pool
+  probablePayout: number | null; // Win pool return per 1 staked if it won now
+}
+
+export interface BetRowData {
+  id: string;
+  player: string;
+  type: string;
+  selection: string; // Horse names joined in finishing order
+  stake: number;
+  scratched: boolean; // Picks a horse no longer in the race
+  outcome: BetOutcome | null; // null until the race is settled
+  payout: number;
+}
+
+export interface BettingPlayerData {
+  id: string;
+  name: string;
+  available: number; // Balance less the stakes already in this book
+}
+
+export interface BettingTemplateData {
+  runners: RunnerData[];
+  betType: BetType;
+  betTypes: { value: BetType; label: string }[];
+  selectionSize: number;
+  players: BettingPlayerData[];
+  playerId: string;
+  bets: BetRowData[];
+  pools: { label: string; total: number }[];
+  bookOpen: boolean; // False once the loaded race has been run
+  playerTotals: { player: string; net: number }[] | null; // Set once settled
+  lastRaceTotals: { player: string; net: number }[] | null; // Previous settled book
+  error: string | null;
+}
+
+function colorHex(color: number): string {
+  return `#${color.toString(16).padStart(6, "0")}`;
+}
+
+function formatMoney(amount: number): string {
+  return amount.toFixed(2);
+}
+
+const OUTCOME_COLORS: Record<BetOutcome, string> = {
+  won: "#4ecdc4",
+  lost: "#ff6b6b",
+  refunded: "#ffe66d",
+};
+
+function renderBetForm(data: BettingTemplateData): string {
+  if (data.players.length === 0) {
+    return `
+      <h3 style="margin: 0 0 10px 0; color: #4ecdc4;">Place a Bet</h3>
+      <p style="color: #aaa; font-size: 13px;">
+        No players yet. Press <span style="color: #4ecdc4; font-weight: bold;">M</span> to add some.
+      </p>
+    `;
+  }
+
+  const playerOptions = data.players
+    .map(
+      (player) =>
+        `<option value="${player.id}" ${player.id === data.playerId ? "selected" : ""}>${player.name} (${formatMoney(player.available)})</option>`,
+    )
+    .join("");
+
+  const horseOptions = data.runners
+    .map((runner) => `<option value="${runner.id}">${runner.name}</option>`)
+    .join("");
+
+  const pickLabels = ["1st", "2nd", "3rd"];
+  const picksHTML = Array.from(
+    { length: data.selectionSize },
+    (_, index) => `
+      <label style="display: block; margin: 8px 0 4px 0; font-size: 12px; color: #aaa;">
+        ${data.selectionSize > 1 ? pickLabels[index] : "Horse"}
+      </label>
+      <select id="betPick${index}" style="width: 100%; ${inputStyles}">
+        ${horseOptions}
+      </select>
+    `,
+  ).join("");
+
+  const typeOptions = data.betTypes
+    .map(
+      (type) =>
+        `<option value="${type.value}" ${type.value === data.betType ? "selected" : ""}>${type.label}</option>`,
+    )
+    .join("");
+
+  return `
+    <h3 style="margin: 0 0 10px 0; color: #4ecdc4;">Place a Bet</h3>
+    <label style="display: block; margin-bottom: 4px; font-size: 12px; color: #aaa;">Player</label>
+    <select id="betPlayer" style="width: 100%; ${inputStyles}">
+      ${playerOptions}
+    </select>
+    <label style="display: block; margin: 8px 0 4px 0; font-size: 12px; color: #aaa;">Bet Type</label>
+    <select id="betType" style="width: 100%; ${inputStyles}">
+      ${typeOptions}
+    </select>
+    ${picksHTML}
+    <label style="display: block; margin: 8px 0 4px 0; font-size: 12px; color: #aaa;">Stake</label>
+    <input id="betStake" type="number" min="1" step="1" value="10" style="width: 100%; box-sizing: border-box; ${inputStyles}" />
+    ${data.error ? `<div style="color: #ff6b6b; font-size: 12px; margin-top: 8px;">${data.error}</div>` : ""}
+    <button id="placeBet" style="margin-top: 12px; width: 100%; padding: 10px; background: #0a6; color: white; border: none; cursor: pointer;">
+      Place Bet
+    </button>
+  `;
+}
+
+function renderToteBoard(data: BettingTemplateData): string {
+  const runnersHTML = data.runners
+    .map(
+      (runner) => `
+        <tr>
+          <td style="padding: 4px 8px;">
+            <span style="display: inline-block; width: 10px; height: 10px; background: ${colorHex(runner.color)}; margin-right: 6px;"></span>${runner.name}
+          </td>
+          <td style="padding: 4px 8px; text-align: right; color: #ffe66d;">${runner.odds ?? "..."}</td>
+          <td style="padding: 4px 8px; text-align: right;">${formatMoney(runner.winPoolStake)}</td>
+          <td style="padding: 4px 8px; text-align: right; color: #4ecdc4;">${runner.probablePayout !== null ? formatMoney(runner.probablePayout) : "-"}</td>
+        </tr>
+      `,
+    )
+    .join("");
+
+  const poolsHTML = data.pools
+    .map(
+      (pool) =>
+        `<span style="margin-right: 12px;">${pool.label}: <strong>${formatMoney(pool.total)}</strong></span>`,
+    )
+    .join("");
+
+  return `
+    <h3 style="margin: 0 0 10px 0; color: #4ecdc4;">Tote Board</h3>
+    <table style="width: 100%; border-collapse: collapse; font-size: 13px;">
+      <tr style="color: #aaa; font-size: 11px;">
+        <th style="text-align: left; padding: 4px 8px;">HORSE</th>
+        <th style="text-align: right; padding: 4px 8px;">ODDS</th>
+        <th style="text-align: right; padding: 4px 8px;">WIN POOL</th>
+        <th style="text-align: right; padding: 4px 8px;">PAYS</th>
+      </tr>
+      ${runnersHTML}
+    </table>
+    <div style="margin-top: 10px; font-size: 12px; color: #ddd;">${poolsHTML}</div>
+    <div style="margin-top: 6px; font-size: 11px; color: #888;">
+      PAYS = current return per 1 staked to win. Payouts are shared from each pool after the race.
+    </div>
+  `;
+}
+
+function renderBetList(data: BettingTemplateData): string {
+  if (data.bets.length === 0) {
+    return '<p style="color: #888;">No bets placed yet.</p>';
+  }
+
+  const settled = data.playerTotals !== null;
+  const rowsHTML = data.bets
+    .map((bet) => {
+      let status = "";
+      if (bet.outcome) {
+        status = `<span style="color: ${OUTCOME_COLORS[bet.outcome]};">${bet.outcome.toUpperCase()} ${formatMoney(bet.payout)}</span>`;
+      } else if (bet.scratched) {
+        status = '<span style="color: #ffe66d;">SCRATCHED (refund)</span>';
+      }
+
+      return `
+        <tr>
+          <td style="padding: 4px 8px;">${bet.player}</td>
+          <td style="padding: 4px 8px;">${bet.type}</td>
+          <td style="padding: 4px 8px;">${bet.selection}</td>
+          <td style="padding: 4px 8px; text-align: right;">${formatMoney(bet.stake)}</td>
+          <td style="padding: 4px 8px; text-align: right;">${status}</td>
+          <td style="padding: 4px 8px; text-align: right;">
+            ${settled ? "" : `<button class="removeBet" data-bet-id="${bet.id}" style="background: #c33; color: white; border: none; padding: 2px 8px; cursor: pointer;">X</button>`}
+          </td>
+        </tr>
+      `;
+    })
+    .join("");
+
+  return `
+    <table style="width: 100%; border-collapse: collapse; font-size: 13px;">
+      ${rowsHTML}
+    </table>
+  `;
+}
+
+function renderPlayerTotals(
+  title: string,
+  totals: { player: string; net: number }[],
+): string {
+  const rowsHTML = totals
+    .map(
+      (total) => `
+        <div style="display: flex; justify-content: space-between; padding: 4px 0;">
+          <span>${total.player}</span>
+          <strong style="color: ${total.net >= 0 ? "#4ecdc4" : "#ff6b6b"};">${total.net >= 0 ? "+" : ""}${formatMoney(total.net)}</strong>
+        </div>
+      `,
+    )
+    .join("");
+
+  return `
+    <h3 style="margin: 0 0 10px 0; color: #4ecdc4;">${title}</h3>
+    ${rowsHTML}
+  `;
+}
+
+function renderClosedBook(): string {
+  return `
+    <p style="color: #aaa; font-size: 13px;">
+      This race has been run. Load or change the race to open a new book.
+    </p>
+  `;
+}
+
+export function renderBettingContent(data: BettingTemplateData): string {
+  if (data.runners.length === 0) {
+    return `
+      <div style="background: rgba(0, 0, 0, 0.95); color: white; padding: 30px; border-radius: 12px; max-width: 600px; text-align: center;">
+        <h1 style="margin: 0 0 20px 0; font-size: 32px; color: #4ecdc4;">BETTING</h1>
+        <p style="color: #aaa;">No horses in race.</p>
+        <div style="color: #888; font-size: 14px; padding-top: 20px; border-top: 1px solid #333;">
+          Press <span style="color: #4ecdc4; font-weight: bold;">A</span> to close and return to track
+        </div>
+      </div>
+    `;
+  }
+
+  let sidePanel = data.playerTotals
+    ? `${renderPlayerTotals("Results", data.playerTotals)}${renderClosedBook()}`
+    : data.bookOpen
+      ? renderBetForm(data)
+      : renderClosedBook();
+  if (data.lastRaceTotals) {
+    sidePanel += `
+      <div style="margin-top: 15px; padding-top: 10px; border-top: 1px solid #333;">
+        ${renderPlayerTotals("Last Race", data.lastRaceTotals)}
+      </div>
+    `;
+  }
+
+  return `
+    <div style="
+      background: rgba(0, 0, 0, 0.95);
+      color: white;
+      padding: 30px;
+      border-radius: 12px;
+      width: 900px;
+      max-width: 90vw;
+      max-height: 90vh;
+      overflow-y: auto;
+      box-sizing: border-box;
+    ">
+      <h1 style="text-align: center; margin: 0 0 25px 0; font-size: 32px; color: #4ecdc4;">
+        BETTING
+      </h1>
+      <div style="display: flex; gap: 20px; margin-bottom: 20px;">
+        <div style="flex: 1; background: rgba(255, 255, 255, 0.05); padding: 15px; border-radius: 8px;">
+          ${renderToteBoard(data)}
+        </div>
+        <div style="width: 260px; background: rgba(255, 255, 255, 0.05); padding: 15px; border-radius: 8px;">
+          ${sidePanel}
+        </div>
+      </div>
+      <div style="background: rgba(255, 255, 255, 0.05); padding: 15px; border-radius: 8px; margin-bottom: 20px;">
+        <h3 style="margin: 0 0 10px 0; color: #4ecdc4;">Bets</h3>
+        ${renderBetList(data)}
+      </div>
+      <div style="text-align: center; color: #888; font-size: 14px; padding-top: 10px; border-top: 1px solid #333;">
+        Press <span style="color: #4ecdc4; font-weight: bold;">P</span> to start the race &nbsp;|&nbsp;
+        <span style="color: #4ecdc4; font-weight: bold;">M</span> for players &nbsp;|&nbsp;
+        <span style="color: #4ecdc4; font-weight: bold;">A</span> to return to track
+      </div>
+    </div>
+  `;
+}
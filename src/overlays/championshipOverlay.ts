@@ -0,0 +1,129 @@
+import type { Championship } from "../championship";
+import {
+  championshipOverlayStyles,
+  renderChampionshipContent,
+} from "./championshipOverlayTemplates";
+
+/**
+ * Season standings table, with the championship settings
+ */
+export class ChampionshipOverlay {
+  private overlayElement: HTMLDivElement;
+  private isVisible: boolean = false;
+  private championship: Championship;
+  private error: string | null = null;
+
+  constructor(championship: Championship) {
+    this.championship = championship;
+    this.overlayElement = this.createOverlay();
+    document.body.appendChild(this.overlayElement);
+  }
+
+  private createOverlay(): HTMLDivElement {
+    const overlay = document.createElement("div");
+    overlay.id = "championship-overlay";
+    overlay.style.cssText = championshipOverlayStyles;
+
+    // Typing a points table shouldn't trigger the keyboard shortcuts
+    overlay.addEventListener("keydown", (event) => {
+      if (event.target instanceof HTMLInputElement) {
+        event.stopPropagation();
+      }
+    });
+    return overlay;
+  }
+
+  /**
+   * Redraw the standings, e.g. after a race has been recorded
+   */
+  public refresh(): void {
+    if (this.isVisible) this.render();
+  }
+
+  private render(): void {
+    this.overlayElement.innerHTML = renderChampionshipContent({
+      standings: this.championship.getStandings(),
+      raceCount: this.championship.getRaceCount(),
+      active: this.championship.isActive(),
+      points: this.championship.getPointsTable().join(", "),
+      error: this.error,
+    });
+
+    this.attachEventListeners();
+  }
+
+  private attachEventListeners(): void {
+    const activeInput = this.overlayElement.querySelector(
+      "#championshipActive",
+    ) as HTMLInputElement | null;
+    activeInput?.addEventListener("change", () => {
+      this.championship.setActive(activeInput.checked);
+    });
+
+    this.overlayElement
+      .querySelector("#savePoints")
+      ?.addEventListener("click", () => this.savePoints());
+
+    this.overlayElement
+      .querySelector("#exportStandings")
+      ?.addEventListener("click", () => this.exportStandings());
+
+    this.overlayElement
+      .querySelector("#resetChampionship")
+      ?.addEventListener("click", () => {
+        if (
+          confirm("Start a new season? Every recorded race will be cleared.")
+        ) {
+          this.championship.reset();
+          this.render();
+        }
+      });
+  }
+
+  private savePoints(): void {
+    const pointsInput = this.overlayElement.querySelector(
+      "#championshipPoints",
+    ) as HTMLInputElement;
+    const points = pointsInput.value
+      .split(",")
+      .map((value) => value.trim())
+      .filter((value) => value.length > 0)
+      .map(Number);
+
+    if (points.length === 0 || points.some((p) => !(p >= 0))) {
+      this.error = "Enter points as numbers separated by commas, e.g. 10, 6, 4";
+    } else {
+      this.error = null;
+      this.championship.setPointsTable(points);
+    }
+    this.render();
+  }
+
+  private exportStandings(): void {
+    const blob = new Blob([this.championship.toCSV()], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `reindeer-championship-${Date.now()}.csv`;
+    link.click();
+
+    URL.revokeObjectURL(url);
+  }
+
+  public show(): void {
+    this.isVisible = true;
+    this.error = null;
+    this.render();
+    this.overlayElement.style.display = "flex";
+  }
+
+  public hide(): void {
+    this.isVisible = false;
+    this.overlayElement.style.display = "none";
+  }
+
+  public isShown(): boolean {
+    return this.isVisible;
+  }
+}
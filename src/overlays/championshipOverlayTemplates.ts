@@ -0,0 +1,106 @@
+import type { ChampionshipStanding } from "../championship";
+
+export const championshipOverlayStyles = `
+  position: fixed;
+  top: 0;
+  left: 0;
+  width: 100%;
+  height: 100%;
+  background: rgba(0, 0, 0, 0.85);
+  display: none;
+  align-items: center;
+  justify-content: center;
+  z-index: 1500;
+`;
+
+const buttonStyles =
+  "border: none; color: white; cursor: pointer; padding: 6px 12px; border-radius: 4px;";
+
+export interface ChampionshipTemplateData {
+  standings: ChampionshipStanding[];
+  raceCount: number;
+  active: boolean;
+  points: string; // Points table as "25, 18, 15, ..."
+  error: string | null;
+}
+
+function colorHex(color: number): string {
+  return `#${color.toString(16).padStart(6, "0")}`;
+}
+
+export function renderChampionshipContent(
+  data: ChampionshipTemplateData,
+): string {
+  const rowsHTML =
+    data.standings.length > 0
+      ? data.standings
+          .map(
+            (standing, index) => `
+              <tr style="border-top: 1px solid #333;">
+                <td style="padding: 6px 8px; font-weight: bold; color: #ffe66d;">${index + 1}</td>
+                <td style="padding: 6px 8px;">
+                  <span style="display: inline-block; width: 10px; height: 10px; background: ${colorHex(standing.color)}; margin-right: 6px;"></span>${standing.name}
+                </td>
+                <td style="padding: 6px 8px; text-align: right; font-weight: bold; color: #4ecdc4;">${standing.points}</td>
+                <td style="padding: 6px 8px; text-align: right;">${standing.races}</td>
+                <td style="padding: 6px 8px; text-align: right;">${standing.wins}</td>
+                <td style="padding: 6px 8px; text-align: right;">${standing.podiums}</td>
+                <td style="padding: 6px 8px; text-align: right;">${standing.averageFinish.toFixed(2)}</td>
+              </tr>
+            `,
+          )
+          .join("")
+      : '<tr><td colspan="7" style="padding: 12px; color: #888; text-align: center;">No races recorded this season yet.</td></tr>';
+
+  return `
+    <div style="
+      background: rgba(0, 0, 0, 0.95);
+      color: white;
+      padding: 30px;
+      border-radius: 12px;
+      width: 760px;
+      max-width: 90vw;
+      max-height: 90vh;
+      overflow-y: auto;
+      box-sizing: border-box;
+    ">
+      <h1 style="text-align: center; margin: 0 0 10px 0; font-size: 32px; color: #4ecdc4;">
+        CHAMPIONSHIP
+      </h1>
+      <div style="text-align: center; color: #888; font-size: 12px; margin-bottom: 20px;">
+        ${data.raceCount} race${data.raceCount === 1 ? "" : "s"} this season
+      </div>
+      <table style="width: 100%; border-collapse: collapse; font-size: 14px; margin-bottom: 20px;">
+        <tr style="color: #aaa; font-size: 11px;">
+          <th style="text-align: left; padding: 4px 8px;">#</th>
+          <th style="text-align: left; padding: 4px 8px;">HORSE</th>
+          <th style="text-align: right; padding: 4px 8px;">PTS</th>
+          <th style="text-align: right; padding: 4px 8px;">RACES</th>
+          <th style="text-align: right; padding: 4px 8px;">WINS</th>
+          <th style="text-align: right; padding: 4px 8px;">PODIUMS</th>
+          <th style="text-align: right; padding: 4px 8px;">AVG FINISH</th>
+        </tr>
+        ${rowsHTML}
+      </table>
+      <div style="background: rgba(255, 255, 255, 0.05); padding: 15px; border-radius: 8px; margin-bottom: 10px; font-size: 13px;">
+        <label style="display: flex; align-items: center; gap: 8px; margin-bottom: 10px; cursor: pointer;">
+          <input id="championshipActive" type="checkbox" ${data.active ? "checked" : ""} />
+          Record finished races in the championship
+        </label>
+        <label style="display: block; margin-bottom: 4px; font-size: 12px; color: #aaa;">Points for 1st, 2nd, 3rd, ...</label>
+        <div style="display: flex; gap: 8px;">
+          <input id="championshipPoints" type="text" value="${data.points}" style="flex: 1; padding: 6px; background: #333; color: white; border: 1px solid #555;" />
+          <button id="savePoints" style="${buttonStyles} background: #0a6;">Save Points</button>
+        </div>
+        ${data.error ? `<div style="color: #ff6b6b; font-size: 12px; margin-top: 8px;">${data.error}</div>` : ""}
+      </div>
+      <div style="display: flex; gap: 8px; justify-content: center; margin-bottom: 20px;">
+        <button id="exportStandings" style="${buttonStyles} background: #06a;">Export CSV</button>
+        <button id="resetChampionship" style="${buttonStyles} background: #c33;">New Season</button>
+      </div>
+      <div style="text-align: center; color: #888; font-size: 14px; padding-top: 10px; border-top: 1px solid #333;">
+        Press <span style="color: #4ecdc4; font-weight: bold;">A</span> to close and return to track
+      </div>
+    </div>
+  `;
+}
@@ -22,11 +22,19 @@ export class CountdownOverlay {
     return container;
   }
 
-  public async showCountdown(sequence: string[]): Promise<void> {
+  /**
+   * @param onShow - Called as each step appears, e.g. to start the race on "GO"
+   */
+  public async showCountdown(
+    sequence: string[],
+    onShow?: (text: string) => void,
+  ): Promise<void> {
     this.overlayElement.style.display = "block";
 
     for (const text of sequence) {
-      await this.animateText(text);
+      const shown = this.animateText(text);
+      onShow?.(text);
+      await shown;
     }
 
     this.overlayElement.style.display = "none";
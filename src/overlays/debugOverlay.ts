@@ -1,5 +1,15 @@
+import {
+  getDraftingPreset,
+  getNextDraftingPreset,
+  saveDraftingPreset,
+} from "../draftingConfig";
+import type { DraftingStatus } from "../raceSimulation";
 import { getCurrentTheme, saveTheme, type ThemeType } from "../themeConfig";
-import { debugOverlayStyles, renderDebugContent } from "./overlayTemplates";
+import {
+  debugOverlayStyles,
+  renderDebugContent,
+  renderDraftingInfo,
+} from "./overlayTemplates";
 
 export class DebugOverlay {
   private overlayElement: HTMLDivElement;
@@ -26,7 +36,7 @@ export class DebugOverlay {
 
   private updateOverlayContent(overlay: HTMLDivElement): void {
     const currentTheme = getCurrentTheme();
-    overlay.innerHTML = renderDebugContent(currentTheme);
+    overlay.innerHTML = renderDebugContent(currentTheme, getDraftingPreset());
 
     // Attach theme toggle event listener
     const themeToggle = overlay.querySelector("#themeToggle");
@@ -41,12 +51,39 @@ export class DebugOverlay {
         }
       });
     }
+
+    // Cycle the default drafting strength for new races (off -> light -> normal -> strong)
+    const draftingToggle = overlay.querySelector("#draftingToggle");
+    if (draftingToggle) {
+      draftingToggle.addEventListener("click", () => {
+        saveDraftingPreset(getNextDraftingPreset(getDraftingPreset()));
+        this.updateOverlayContent(overlay);
+      });
+    }
+  }
+
+  /**
+   * Redraw the settings, e.g. after the theme was changed elsewhere
+   */
+  public refresh(): void {
+    this.updateOverlayContent(this.overlayElement);
   }
 
   public setThemeChangeCallback(callback: (theme: ThemeType) => void): void {
     this.onThemeChange = callback;
   }
 
+  /**
+   * Show which horses are currently in a slipstream
+   */
+  public updateDrafting(drafting: DraftingStatus[]): void {
+    const draftingElement =
+      this.overlayElement.querySelector("#debug-drafting");
+    if (draftingElement) {
+      draftingElement.innerHTML = renderDraftingInfo(drafting);
+    }
+  }
+
   public toggle(): void {
     this.isVisible = !this.isVisible;
     this.overlayElement.style.display = this.isVisible ? "block" : "none";
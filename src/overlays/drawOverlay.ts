@@ -0,0 +1,82 @@
+import {
+  type DrawEntry,
+  drawOverlayStyles,
+  renderDrawContent,
+} from "./drawOverlayTemplates";
+
+const REVEAL_INTERVAL_MS = 900; // Time between horses being drawn
+
+/**
+ * Gate draw ceremony: reveals each horse's starting stall one at a time
+ */
+export class DrawOverlay {
+  private overlayElement: HTMLDivElement;
+  private isVisible: boolean = false;
+  private entries: DrawEntry[] = [];
+  private revealed: number = 0;
+  private revealTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor() {
+    this.overlayElement = this.createOverlay();
+    document.body.appendChild(this.overlayElement);
+  }
+
+  private createOverlay(): HTMLDivElement {
+    const overlay = document.createElement("div");
+    overlay.id = "draw-overlay";
+    overlay.style.cssText = drawOverlayStyles;
+    return overlay;
+  }
+
+  private render(): void {
+    const stalls: Array<DrawEntry | null> = this.entries.map(() => null);
+    const drawn = this.entries.slice(0, this.revealed);
+    drawn.forEach((entry) => {
+      stalls[entry.stall - 1] = entry;
+    });
+
+    this.overlayElement.innerHTML = renderDrawContent({
+      stalls,
+      latest: drawn[drawn.length - 1] ?? null,
+      complete: this.revealed === this.entries.length,
+    });
+  }
+
+  private stopReveal(): void {
+    if (this.revealTimer !== null) {
+      clearInterval(this.revealTimer);
+      this.revealTimer = null;
+    }
+  }
+
+  /**
+   * Start the ceremony
+   * @param entries - Every horse with the stall it drew, in the order they come out of the hat
+   */
+  public show(entries: DrawEntry[]): void {
+    this.stopReveal();
+    this.entries = entries;
+    this.revealed = 0;
+    this.isVisible = true;
+    this.render();
+    this.overlayElement.style.display = "flex";
+
+    this.revealTimer = setInterval(() => {
+      this.revealed++;
+      this.render();
+      if (this.revealed >= this.entries.length) {
+        this.stopReveal();
+      }
+    }, REVEAL_INTERVAL_MS);
+  }
+
+  public hide(): void {
+    this.stopReveal();
+    this.isVisible = false;
+    this.overlayElement.style.display = "none";
+  }
+
+  public isShown(): boolean {
+    return this.isVisible;
+  }
+}
@@ -0,0 +1,96 @@
+export const drawOverlayStyles = `
+  position: fixed;
+  top: 0;
+  left: 0;
+  width: 100%;
+  height: 100%;
+  background: rgba(0, 0, 0, 0.85);
+  display: none;
+  align-items: center;
+  justify-content: center;
+  z-index: 1500;
+`;
+
+export interface DrawEntry {
+  name: string;
+  color: number;
+  stall: number;
+}
+
+export interface DrawTemplateData {
+  stalls: Array<DrawEntry | null>; // In stall order, null until that stall is drawn
+  latest: DrawEntry | null; // Most recently drawn horse
+  complete: boolean;
+}
+
+function renderStallRow(
+  entry: DrawEntry | null,
+  stall: number,
+  latest: boolean,
+): string {
+  const colorHex = entry
+    ? `#${entry.color.toString(16).padStart(6, "0")}`
+    : "#333";
+
+  return `
+    <tr style="border-top: 1px solid #333; ${latest ? "background: rgba(255, 230, 109, 0.15);" : ""}">
+      <td style="padding: 6px 8px; font-weight: bold; color: #4ecdc4; width: 40px;">${stall}</td>
+      <td style="padding: 6px 8px;">
+        ${
+          entry
+            ? `<span style="display: inline-block; width: 10px; height: 10px; background: ${colorHex}; margin-right: 6px;"></span>${entry.name}`
+            : '<span style="color: #555;">?</span>'
+        }
+      </td>
+    </tr>
+  `;
+}
+
+export function renderDrawContent(data: DrawTemplateData): string {
+  const rowsHTML = data.stalls
+    .map((entry, index) =>
+      renderStallRow(entry, index + 1, entry !== null && entry === data.latest),
+    )
+    .join("");
+
+  const statusHTML = data.complete
+    ? "The draw is complete"
+    : data.latest
+      ? `<span style="color: #ffe66d; font-weight: bold;">${data.latest.name}</span> draws gate ${data.latest.stall}`
+      : "Drawing the gates...";
+
+  return `
+    <div style="
+      background: rgba(0, 0, 0, 0.95);
+      color: white;
+      padding: 30px;
+      border-radius: 12px;
+      width: 420px;
+      max-width: 95vw;
+      max-height: 90vh;
+      overflow-y: auto;
+      box-sizing: border-box;
+    ">
+      <h1 style="text-align: center; margin: 0 0 10px 0; font-size: 32px; color: #4ecdc4;">
+        GATE DRAW
+      </h1>
+      <div style="text-align: center; color: #ddd; font-size: 16px; margin-bottom: 20px; min-height: 20px;">
+        ${statusHTML}
+      </div>
+      <table style="width: 100%; border-collapse: collapse; font-size: 14px; margin-bottom: 20px;">
+        <tr style="color: #aaa; font-size: 11px;">
+          <th style="text-align: left; padding: 4px 8px;">GATE</th>
+          <th style="text-align: left; padding: 4px 8px;">HORSE</th>
+        </tr>
+        ${rowsHTML}
+      </table>
+      <div style="text-align: center; color: #aaa; font-size: 12px; margin-bottom: 20px;">
+        Gate 1 is on the inside rail. Inside gates save ground on the turns.
+      </div>
+      <div style="text-align: center; color: #888; font-size: 14px; padding-top: 10px; border-top: 1px solid #333;">
+        Press <span style="color: #4ecdc4; font-weight: bold;">P</span> to start the race &nbsp;|&nbsp;
+        <span style="color: #4ecdc4; font-weight: bold;">A</span> to close and return to track
+      </div>
+    </div>
+  `;
+}
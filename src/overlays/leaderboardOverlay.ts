@@ -1,3 +1,4 @@
+import type { SplitPoint } from "../raceSimulation";
 import {
   leaderboardOverlayStyles,
   renderLeaderboardContent,
@@ -6,6 +7,15 @@ import {
 export interface LeaderboardEntry {
   position: number;
   name: string;
+  stall: number; // Starting stall from the gate draw
+  finishTime: number | null;
+  splits: (number | null)[]; // Race time at each split point passed so far
+  lengthsBehind: number; // Gap to the leader
+}
+
+export interface LapCounter {
+  current: number;
+  total: number;
 }
 
 export class LeaderboardOverlay {
@@ -27,9 +37,22 @@ export class LeaderboardOverlay {
     return overlay;
   }
 
-  public update(raceTime: number, leaders: LeaderboardEntry[]): void {
+  /**
+   * @param splitPoints - Timing points of the race, for the leader's sectionals
+   */
+  public update(
+    raceTime: number,
+    leaders: LeaderboardEntry[],
+    lap?: LapCounter,
+    splitPoints: SplitPoint[] = [],
+  ): void {
     this.raceTime = raceTime;
-    this.overlayElement.innerHTML = renderLeaderboardContent(raceTime, leaders);
+    this.overlayElement.innerHTML = renderLeaderboardContent(
+      raceTime,
+      leaders,
+      lap,
+      splitPoints,
+    );
   }
 
   public show(): void {
@@ -0,0 +1,278 @@
+import { GOING_LABELS } from "../going";
+import type { MeetingRace } from "../raceConfigSchema";
+import type { RaceMeeting } from "../raceMeeting";
+import { DEFAULT_RACE_DISTANCE } from "../raceSimulation";
+import { THEMES } from "../themeConfig";
+import { WEATHER_LABELS } from "../weather";
+import {
+  type MeetingRaceRowData,
+  meetingOverlayStyles,
+  renderMeetingContent,
+} from "./meetingOverlayTemplates";
+
+/**
+ * Race meeting card builder, with the progress of a running meeting
+ */
+export class MeetingOverlay {
+  private overlayElement: HTMLDivElement;
+  private isVisible: boolean = false;
+  private meeting: RaceMeeting;
+  private error: string | null = null;
+  private getCurrentRace: (() => Omit<MeetingRace, "name">) | null = null;
+  private onLoadRace: ((race: MeetingRace) => void) | null = null;
+  private onNextRace: (() => void) | null = null;
+  private onEnd: (() => void) | null = null;
+
+  constructor(meeting: RaceMeeting) {
+    this.meeting = meeting;
+    this.overlayElement = this.createOverlay();
+    document.body.appendChild(this.overlayElement);
+  }
+
+  private createOverlay(): HTMLDivElement {
+    const overlay = document.createElement("div");
+    overlay.id = "meeting-overlay";
+    overlay.style.cssText = meetingOverlayStyles;
+
+    // Typing a race name shouldn't trigger the keyboard shortcuts
+    overlay.addEventListener("keydown", (event) => {
+      if (event.target instanceof HTMLInputElement) {
+        event.stopPropagation();
+      }
+    });
+    return overlay;
+  }
+
+  /**
+   * Where "Add Current Race" gets the race set up in the editor from
+   */
+  public setCurrentRaceCallback(
+    callback: () => Omit<MeetingRace, "name">,
+  ): void {
+    this.getCurrentRace = callback;
+  }
+
+  /**
+   * Called to load a race from the card into the editor to check it over
+   */
+  public setLoadRaceCallback(callback: (race: MeetingRace) => void): void {
+    this.onLoadRace = callback;
+  }
+
+  /**
+   * Called to start the meeting or move on to its next race
+   */
+  public setNextRaceCallback(callback: () => void): void {
+    this.onNextRace = callback;
+  }
+
+  public setEndCallback(callback: () => void): void {
+    this.onEnd = callback;
+  }
+
+  /**
+   * Redraw the card, e.g. after the meeting has moved on a race
+   */
+  public refresh(): void {
+    if (this.isVisible) this.render();
+  }
+
+  private render(): void {
+    const currentIndex = this.meeting.getCurrentIndex();
+    this.overlayElement.innerHTML = renderMeetingContent({
+      name: this.meeting.getName(),
+      races: this.meeting.getRaces().map((race, index) => ({
+        ...describeRace(race),
+        status:
+          currentIndex === null || index > currentIndex
+            ? "upcoming"
+            : index === currentIndex
+              ? "current"
+              : "done",
+      })),
+      running: this.meeting.isRunning(),
+      error: this.error,
+    });
+
+    this.attachEventListeners();
+  }
+
+  private attachEventListeners(): void {
+    const getIndex = (button: Element) =>
+      parseInt((button as HTMLElement).getAttribute("data-index") ?? "", 10);
+
+    this.overlayElement.querySelectorAll(".moveRaceUp").forEach((button) => {
+      button.addEventListener("click", () => {
+        this.meeting.moveRace(getIndex(button), -1);
+        this.render();
+      });
+    });
+
+    this.overlayElement.querySelectorAll(".moveRaceDown").forEach((button) => {
+      button.addEventListener("click", () => {
+        this.meeting.moveRace(getIndex(button), 1);
+        this.render();
+      });
+    });
+
+    this.overlayElement.querySelectorAll(".loadRace").forEach((button) => {
+      button.addEventListener("click", () => {
+        const race = this.meeting.getRaces()[getIndex(button)];
+        if (race) this.onLoadRace?.(race);
+      });
+    });
+
+    this.overlayElement.querySelectorAll(".removeRace").forEach((button) => {
+      button.addEventListener("click", () => {
+        const race = this.meeting.getRaces()[getIndex(button)];
+        if (race && confirm(`Take ${race.name} off the card?`)) {
+          this.meeting.removeRace(getIndex(button));
+          this.render();
+        }
+      });
+    });
+
+    this.overlayElement
+      .querySelector("#saveMeetingName")
+      ?.addEventListener("click", () => {
+        const nameInput = this.overlayElement.querySelector(
+          "#meetingName",
+        ) as HTMLInputElement;
+        const name = nameInput.value.trim();
+        if (name) this.meeting.setName(name);
+        this.render();
+      });
+
+    this.overlayElement
+      .querySelector("#addMeetingRace")
+      ?.addEventListener("click", () => this.addCurrentRace());
+
+    this.overlayElement
+      .querySelector("#startMeeting")
+      ?.addEventListener("click", () => this.onNextRace?.());
+    this.overlayElement
+      .querySelector("#nextMeetingRace")
+      ?.addEventListener("click", () => this.onNextRace?.());
+
+    this.overlayElement
+      .querySelector("#endMeeting")
+      ?.addEventListener("click", () => {
+        if (confirm("End the meeting? The card is kept for next time.")) {
+          this.onEnd?.();
+        }
+      });
+
+    this.overlayElement
+      .querySelector("#exportMeeting")
+      ?.addEventListener("click", () => this.exportMeeting());
+
+    const importInput = this.overlayElement.querySelector(
+      "#importMeetingInput",
+    ) as HTMLInputElement | null;
+    this.overlayElement
+      .querySelector("#importMeeting")
+      ?.addEventListener("click", () => importInput?.click());
+    importInput?.addEventListener("change", (e) => this.handleImportFile(e));
+  }
+
+  private addCurrentRace(): void {
+    const race = this.getCurrentRace?.();
+    if (!race) return;
+
+    if (race.horses.length === 0) {
+      this.error = "Add some horses to the race in the editor first.";
+    } else {
+      const nameInput = this.overlayElement.querySelector(
+        "#meetingRaceName",
+      ) as HTMLInputElement;
+      const name =
+        nameInput.value.trim() || `Race ${this.meeting.getRaces().length + 1}`;
+      this.meeting.addRace({ ...race, name });
+      this.error = null;
+    }
+    this.render();
+  }
+
+  private exportMeeting(): void {
+    const jsonString = JSON.stringify(this.meeting.toFile(), null, 2);
+    const blob = new Blob([jsonString], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `reindeer-meeting-${Date.now()}.json`;
+    link.click();
+
+    URL.revokeObjectURL(url);
+  }
+
+  private async handleImportFile(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+
+    try {
+      const json = JSON.parse(await file.text());
+
+      if (
+        this.meeting.getRaces().length > 0 &&
+        !confirm(
+          `This will replace the current card of ${this.meeting.getRaces().length} race(s). Continue?`,
+        )
+      ) {
+        return;
+      }
+
+      const validation = this.meeting.importFile(json);
+      if (!validation.success) {
+        const errorMessage = validation.issues
+          ? `${validation.error}:\n${validation.issues.join("\n")}`
+          : validation.error;
+        alert(errorMessage);
+        return;
+      }
+
+      this.error = null;
+      this.render();
+      alert("✅ Meeting imported successfully!");
+    } catch (error) {
+      const errorMsg =
+        error instanceof Error ? error.message : "Invalid JSON file format";
+      alert(`❌ Import Failed\n\n${errorMsg}`);
+    } finally {
+      input.value = ""; // Reset file input
+    }
+  }
+
+  public show(): void {
+    this.isVisible = true;
+    this.error = null;
+    this.render();
+    this.overlayElement.style.display = "flex";
+  }
+
+  public hide(): void {
+    this.isVisible = false;
+    this.overlayElement.style.display = "none";
+  }
+
+  public isShown(): boolean {
+    return this.isVisible;
+  }
+}
+
+function describeRace(race: MeetingRace): Omit<MeetingRaceRowData, "status"> {
+  const distance = race.distance ?? DEFAULT_RACE_DISTANCE;
+  return {
+    name: race.name,
+    horseCount: race.horses.length,
+    raceSeed: race.raceSeed,
+    distance:
+      distance.unit === "laps"
+        ? `${distance.value} lap${distance.value === 1 ? "" : "s"}`
+        : `${distance.value} units`,
+    going: race.going ? GOING_LABELS[race.going] : "Seed",
+    weather: race.weather ? WEATHER_LABELS[race.weather] : "Seed",
+    theme: race.theme ? THEMES[race.theme].name : "Current",
+  };
+}
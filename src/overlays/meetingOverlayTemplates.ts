@@ -0,0 +1,149 @@
+export const meetingOverlayStyles = `
+  position: fixed;
+  top: 0;
+  left: 0;
+  width: 100%;
+  height: 100%;
+  background: rgba(0, 0, 0, 0.85);
+  display: none;
+  align-items: center;
+  justify-content: center;
+  z-index: 1500;
+`;
+
+const buttonStyles =
+  "border: none; color: white; cursor: pointer; padding: 6px 12px; border-radius: 4px;";
+const smallButtonStyles =
+  "border: none; color: white; cursor: pointer; padding: 3px 8px; border-radius: 3px; background: #444;";
+
+export interface MeetingRaceRowData {
+  name: string;
+  horseCount: number;
+  raceSeed: number;
+  distance: string; // e.g. "2 laps" or "150 units"
+  going: string;
+  weather: string;
+  theme: string;
+  status: "done" | "current" | "upcoming";
+}
+
+export interface MeetingTemplateData {
+  name: string;
+  races: MeetingRaceRowData[];
+  running: boolean;
+  error: string | null;
+}
+
+const STATUS_STYLES: Record<MeetingRaceRowData["status"], string> = {
+  done: "color: #666;",
+  current: "color: #ffe66d; font-weight: bold;",
+  upcoming: "",
+};
+
+function renderRaceRow(
+  race: MeetingRaceRowData,
+  index: number,
+  data: MeetingTemplateData,
+): string {
+  const buttons = data.running
+    ? ""
+    : `
+        <button class="moveRaceUp" data-index="${index}" ${index === 0 ? "disabled" : ""} style="${smallButtonStyles}">▲</button>
+        <button class="moveRaceDown" data-index="${index}" ${index === data.races.length - 1 ? "disabled" : ""} style="${smallButtonStyles}">▼</button>
+        <button class="loadRace" data-index="${index}" style="${smallButtonStyles} background: #06a;">Load</button>
+        <button class="removeRace" data-index="${index}" style="${smallButtonStyles} background: #c33;">X</button>
+      `;
+
+  return `
+    <tr style="border-top: 1px solid #333; ${STATUS_STYLES[race.status]}">
+      <td style="padding: 6px 8px;">${race.status === "current" ? "▶" : index + 1}</td>
+      <td style="padding: 6px 8px;">${race.name}</td>
+      <td style="padding: 6px 8px; text-align: right;">${race.horseCount}</td>
+      <td style="padding: 6px 8px; text-align: right;">${race.raceSeed}</td>
+      <td style="padding: 6px 8px;">${race.distance}</td>
+      <td style="padding: 6px 8px;">${race.going} / ${race.weather}</td>
+      <td style="padding: 6px 8px;">${race.theme}</td>
+      <td style="padding: 6px 8px; white-space: nowrap; text-align: right;">${buttons}</td>
+    </tr>
+  `;
+}
+
+export function renderMeetingContent(data: MeetingTemplateData): string {
+  const rowsHTML =
+    data.races.length > 0
+      ? data.races
+          .map((race, index) => renderRaceRow(race, index, data))
+          .join("")
+      : '<tr><td colspan="8" style="padding: 12px; color: #888; text-align: center;">No races on the card yet. Set up a race in the editor and add it here.</td></tr>';
+
+  const controlsHTML = data.running
+    ? `
+        <button id="nextMeetingRace" style="${buttonStyles} background: #0a6;">Next Race</button>
+        <button id="endMeeting" style="${buttonStyles} background: #c33;">End Meeting</button>
+      `
+    : `
+        <button id="startMeeting" ${data.races.length === 0 ? "disabled" : ""} style="${buttonStyles} background: #0a6;">Start Meeting</button>
+        <button id="exportMeeting" ${data.races.length === 0 ? "disabled" : ""} style="${buttonStyles} background: #06a;">Export Card</button>
+        <button id="importMeeting" style="${buttonStyles} background: #06a;">Import Card</button>
+        <input id="importMeetingInput" type="file" accept=".json" style="display: none;" />
+      `;
+
+  const builderHTML = data.running
+    ? ""
+    : `
+        <div style="background: rgba(255, 255, 255, 0.05); padding: 15px; border-radius: 8px; margin-bottom: 20px; font-size: 13px;">
+          <label style="display: block; margin-bottom: 4px; font-size: 12px; color: #aaa;">Meeting name</label>
+          <div style="display: flex; gap: 8px; margin-bottom: 12px;">
+            <input id="meetingName" type="text" value="${data.name}" style="flex: 1; padding: 6px; background: #333; color: white; border: 1px solid #555;" />
+            <button id="saveMeetingName" style="${buttonStyles} background: #444;">Rename</button>
+          </div>
+          <label style="display: block; margin-bottom: 4px; font-size: 12px; color: #aaa;">Add the race set up in the editor (field, seed, distance, going, weather and theme)</label>
+          <div style="display: flex; gap: 8px;">
+            <input id="meetingRaceName" type="text" placeholder="Race ${data.races.length + 1}" style="flex: 1; padding: 6px; background: #333; color: white; border: 1px solid #555;" />
+            <button id="addMeetingRace" style="${buttonStyles} background: #0a6;">Add Current Race</button>
+          </div>
+          ${data.error ? `<div style="color: #ff6b6b; font-size: 12px; margin-top: 8px;">${data.error}</div>` : ""}
+        </div>
+      `;
+
+  return `
+    <div style="
+      background: rgba(0, 0, 0, 0.95);
+      color: white;
+      padding: 30px;
+      border-radius: 12px;
+      width: 900px;
+      max-width: 95vw;
+      max-height: 90vh;
+      overflow-y: auto;
+      box-sizing: border-box;
+    ">
+      <h1 style="text-align: center; margin: 0 0 10px 0; font-size: 32px; color: #4ecdc4;">
+        ${data.name.toUpperCase()}
+      </h1>
+      <div style="text-align: center; color: #888; font-size: 12px; margin-bottom: 20px;">
+        ${data.races.length} race${data.races.length === 1 ? "" : "s"} on the card${data.running ? " - meeting in progress" : ""}
+      </div>
+      <table style="width: 100%; border-collapse: collapse; font-size: 14px; margin-bottom: 20px;">
+        <tr style="color: #aaa; font-size: 11px;">
+          <th style="text-align: left; padding: 4px 8px;">#</th>
+          <th style="text-align: left; padding: 4px 8px;">RACE</th>
+          <th style="text-align: right; padding: 4px 8px;">RUNNERS</th>
+          <th style="text-align: right; padding: 4px 8px;">SEED</th>
+          <th style="text-align: left; padding: 4px 8px;">DISTANCE</th>
+          <th style="text-align: left; padding: 4px 8px;">GOING / WEATHER</th>
+          <th style="text-align: left; padding: 4px 8px;">THEME</th>
+          <th></th>
+        </tr>
+        ${rowsHTML}
+      </table>
+      ${builderHTML}
+      <div style="display: flex; gap: 8px; justify-content: center; margin-bottom: 20px;">
+        ${controlsHTML}
+      </div>
+      <div style="text-align: center; color: #888; font-size: 14px; padding-top: 10px; border-top: 1px solid #333;">
+        ${data.running ? 'Press <span style="color: #4ecdc4; font-weight: bold;">N</span> for the next race or' : "Press"} <span style="color: #4ecdc4; font-weight: bold;">A</span> to close and return to track
+      </div>
+    </div>
+  `;
+}
@@ -1,3 +1,8 @@
+import type { GoingSuitability } from "../going";
+import type { Ancestor, Pedigree } from "../horseStats";
+import { formatMargin } from "../margins";
+import type { HorseOdds } from "../oddsCalculator";
+
 // Photo Finish Templates
 export const photoFinishThumbnailStyles = `
   position: fixed;
@@ -33,7 +38,7 @@ export const photoFinishThumbnailHTML = `
       object-fit: cover;
     " />
   </div>
-  <div style="
+  <div id="photo-finish-caption" style="
     position: absolute;
     bottom: 12px;
     left: 0;
@@ -91,6 +96,13 @@ export const photoFinishModalHTML = `
     ">
       PHOTO FINISH
     </div>
+    <div id="photo-finish-verdict" style="
+      text-align: center;
+      color: #ffe66d;
+      font-family: 'Georgia', serif;
+      font-size: 14px;
+      margin-top: 6px;
+    "></div>
     <div style="
       text-align: center;
       color: #aaa;
@@ -102,6 +114,16 @@ export const photoFinishModalHTML = `
   </div>
 `;
 
+/**
+ * Format seconds as mm:ss.mmm
+ */
+export function formatRaceTime(raceTime: number): string {
+  const minutes = Math.floor(raceTime / 60);
+  const seconds = Math.floor(raceTime % 60);
+  const milliseconds = Math.floor((raceTime % 1) * 1000);
+  return `${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}.${milliseconds.toString().padStart(3, "0")}`;
+}
+
 // Leaderboard Templates
 export const leaderboardOverlayStyles = `
   position: fixed;
@@ -116,17 +138,44 @@ export const leaderboardOverlayStyles = `
   border: 2px solid #4ecdc4;
   z-index: 999;
   min-width: 200px;
+  max-height: calc(100vh - 40px);
+  overflow-y: auto;
+  box-sizing: border-box;
   display: none;
 `;
 
 export function renderLeaderboardContent(
   raceTime: number,
-  leaders: Array<{ position: number; name: string }>,
+  leaders: Array<{
+    position: number;
+    name: string;
+    stall: number;
+    finishTime: number | null;
+    splits: (number | null)[];
+    lengthsBehind: number;
+  }>,
+  lap?: { current: number; total: number },
+  splitPoints: Array<{ label: string }> = [],
 ): string {
-  const minutes = Math.floor(raceTime / 60);
-  const seconds = Math.floor(raceTime % 60);
-  const milliseconds = Math.floor((raceTime % 1) * 1000);
-  const timeStr = `${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}.${milliseconds.toString().padStart(3, "0")}`;
+  const timeStr = formatRaceTime(raceTime);
+
+  // The leader's split times, with the time taken since the previous split
+  const leaderSplits = leaders[0]?.splits ?? [];
+  const sectionalsHtml = splitPoints
+    .map((point, index) => {
+      const split = leaderSplits[index];
+      if (split === null || split === undefined) return "";
+      const sectional =
+        split - (index > 0 ? (leaderSplits[index - 1] ?? 0) : 0);
+      return `<div>${point.label}: ${formatRaceTime(split)} <span style="color: #888;">(${sectional.toFixed(2)}s)</span></div>`;
+    })
+    .join("");
+
+  // Only multi-lap races show a lap counter
+  const lapHtml =
+    lap && lap.total > 1
+      ? `<div style="color: #ffe66d; font-weight: bold; margin-bottom: 8px;">LAP ${lap.current}/${lap.total}</div>`
+      : "";
 
   let entriesHtml = "";
   if (leaders.length === 0) {
@@ -136,15 +185,25 @@ export function renderLeaderboardContent(
     const medals = ["🥇", "🥈", "🥉"];
 
     leaders.forEach((entry, index) => {
-      const isTopThree = index < 3;
-      const color = isTopThree ? positionColors[index] : "#aaa";
-      const medal = isTopThree ? `${medals[index]} ` : "";
+      // Placings follow position so dead heats share a medal
+      const isTopThree = entry.position <= 3;
+      const color = isTopThree ? positionColors[entry.position - 1] : "#aaa";
+      const medal = isTopThree ? `${medals[entry.position - 1]} ` : "";
       const fontWeight = isTopThree ? "bold" : "normal";
       const fontSize = isTopThree ? "14px" : "13px";
 
+      // Gap to the leader, "dead heat" only once both are home
+      const gap =
+        index === 0
+          ? ""
+          : entry.lengthsBehind > 0 || entry.finishTime !== null
+            ? formatMargin(entry.lengthsBehind)
+            : "level";
+
       entriesHtml += `
         <div style="color: ${color}; font-weight: ${fontWeight}; font-size: ${fontSize};">
-          ${medal}${entry.position}. ${entry.name}
+          ${medal}${entry.position}. ${entry.name} <span style="color: #888; font-weight: normal;">[${entry.stall}]${entry.finishTime !== null ? ` ${formatRaceTime(entry.finishTime)}` : ""}</span>
+          ${gap ? `<div style="color: #888; font-weight: normal; font-size: 11px; line-height: 1.2; margin: -4px 0 2px 20px;">${gap}</div>` : ""}
         </div>
       `;
     });
@@ -154,6 +213,8 @@ export function renderLeaderboardContent(
     <div style="font-weight: bold; color: #4ecdc4; margin-bottom: 10px; font-size: 16px;">
       RACE TIME: ${timeStr}
     </div>
+    ${lapHtml}
+    ${sectionalsHtml ? `<div style="font-size: 12px; color: #ffe66d; margin-bottom: 8px;">${sectionalsHtml}</div>` : ""}
     <div id="leaderboard-entries" style="line-height: 1.8;">
       ${entriesHtml}
     </div>
@@ -180,11 +241,58 @@ export interface RiderData {
   speed: number;
   stamina: number;
   acceleration: number;
-  winProbability: number;
+  odds: HorseOdds | null; // null while the odds are being worked out
+  preferredGoing: string | null; // Label, null if the horse has no preference
+  goingSuitability: GoingSuitability;
+  pedigree: Pedigree | null; // Parents, for bred foals
+  stall: number | null; // Starting stall from the gate draw
   previewImage?: string;
 }
 
-export function renderRidersContent(riders: RiderData[]): string {
+const FAMILY_TREE_GENERATIONS = 2; // Parents and grandparents fit on a card
+
+function renderAncestor(
+  ancestor: Ancestor,
+  role: string,
+  generation: number,
+): string {
+  const colorHex = `#${ancestor.color.toString(16).padStart(6, "0")}`;
+  const parentsHTML =
+    generation < FAMILY_TREE_GENERATIONS
+      ? `${ancestor.sire ? renderAncestor(ancestor.sire, "Sire", generation + 1) : ""}${ancestor.dam ? renderAncestor(ancestor.dam, "Dam", generation + 1) : ""}`
+      : "";
+
+  return `
+    <div style="margin-left: ${(generation - 1) * 12}px; padding: 1px 0;">
+      <span style="color: #888;">${role}</span>
+      <span style="display: inline-block; width: 8px; height: 8px; background: ${colorHex}; margin: 0 3px;"></span>${ancestor.name}
+    </div>
+    ${parentsHTML}
+  `;
+}
+
+function renderFamilyTree(pedigree: Pedigree): string {
+  return `
+    <div style="font-size: 11px; background: rgba(255, 255, 255, 0.03); padding: 6px 8px; border-radius: 4px; margin-bottom: 10px;">
+      <div style="color: #aaa; margin-bottom: 3px;">FAMILY TREE</div>
+      ${renderAncestor(pedigree.sire, "Sire", 1)}
+      ${renderAncestor(pedigree.dam, "Dam", 1)}
+    </div>
+  `;
+}
+
+const SUITABILITY_COLORS: Record<GoingSuitability, string> = {
+  suited: "#4ecdc4",
+  neutral: "#aaa",
+  unsuited: "#ff6b6b",
+};
+
+export function renderRidersContent(
+  riders: RiderData[],
+  goingLabel: string,
+  weatherLabel: string,
+  raceTitle: string | null,
+): string {
   const ridersHTML = riders
     .map((rider) => {
       const colorHex = `#${rider.color.toString(16).padStart(6, "0")}`;
@@ -201,6 +309,7 @@ export function renderRidersContent(riders: RiderData[]): string {
         ">
           ${previewHTML}
           <h3 style="margin: 0 0 8px 0; font-size: 18px; text-align: center;">${rider.name}</h3>
+          ${rider.stall !== null ? `<div style="font-size: 12px; text-align: center; color: #aaa; margin-bottom: 8px;">Gate ${rider.stall}</div>` : ""}
           <div style="
             background: ${colorHex};
             color: black;
@@ -211,8 +320,30 @@ export function renderRidersContent(riders: RiderData[]): string {
             text-align: center;
             margin-bottom: 10px;
           ">
-            ${(rider.winProbability * 100).toFixed(1)}% Win Chance
+            ${rider.odds ? `${rider.odds.fractionalOdds} (${rider.odds.decimalOdds.toFixed(2)})` : "Calculating odds..."}
           </div>
+          ${
+            rider.odds
+              ? `<div style="display: flex; justify-content: space-between; gap: 8px; font-size: 11px; margin-bottom: 10px;">
+            <div style="flex: 1; text-align: center;">
+              <div style="color: #aaa; margin-bottom: 3px;">WIN</div>
+              <div style="font-weight: bold;">${(rider.odds.win * 100).toFixed(1)}%</div>
+            </div>
+            <div style="flex: 1; text-align: center;">
+              <div style="color: #aaa; margin-bottom: 3px;">PLACE</div>
+              <div style="font-weight: bold;">${(rider.odds.place * 100).toFixed(1)}%</div>
+            </div>
+            <div style="flex: 1; text-align: center;">
+              <div style="color: #aaa; margin-bottom: 3px;">SHOW</div>
+              <div style="font-weight: bold;">${(rider.odds.show * 100).toFixed(1)}%</div>
+            </div>
+          </div>`
+              : ""
+          }
+          <div style="font-size: 12px; text-align: center; margin-bottom: 10px; color: ${SUITABILITY_COLORS[rider.goingSuitability]};">
+            Prefers: ${rider.preferredGoing ?? "Any going"}
+          </div>
+          ${rider.pedigree ? renderFamilyTree(rider.pedigree) : ""}
           <div style="display: flex; justify-content: space-between; gap: 8px; font-size: 11px;">
             <div style="flex: 1; text-align: center;">
               <div style="color: #aaa; margin-bottom: 3px;">SPD</div>
@@ -246,6 +377,12 @@ export function renderRidersContent(riders: RiderData[]): string {
       <h1 style="text-align: center; margin: 0 0 25px 0; font-size: 32px; color: #4ecdc4;">
         RIDERS ROSTER
       </h1>
+      ${raceTitle ? `<div style="text-align: center; margin: -15px 0 20px 0; font-size: 20px; color: #ffe66d; font-weight: bold;">${raceTitle}</div>` : ""}
+      <div style="text-align: center; margin: -15px 0 20px 0; font-size: 16px; color: #ddd;">
+        Going: <span style="font-weight: bold;">${goingLabel}</span>
+        &nbsp;|&nbsp;
+        Weather: <span style="font-weight: bold;">${weatherLabel}</span>
+      </div>
       <div style="
         display: grid;
         grid-template-columns: repeat(4, 1fr);
@@ -256,9 +393,16 @@ export function renderRidersContent(riders: RiderData[]): string {
       </div>
       <div style="text-align: center; color: #aaa; font-size: 12px; padding: 10px 0; border-top: 1px solid #333;">
         <span style="color: #4ecdc4;">SPD</span> = Speed &nbsp;|&nbsp; <span style="color: #4ecdc4;">STA</span> = Stamina &nbsp;|&nbsp; <span style="color: #4ecdc4;">ACC</span> = Acceleration
+        <br />
+        Odds from simulating the race many times. <span style="color: #4ecdc4;">PLACE</span> = top 2 &nbsp;|&nbsp; <span style="color: #4ecdc4;">SHOW</span> = top 3
+        <br />
+        Gate 1 is on the inside rail, and inside gates save ground on the turns
       </div>
       <div style="text-align: center; color: #888; font-size: 14px; padding-top: 10px;">
-        Press <span style="color: #4ecdc4; font-weight: bold;">A</span> to close and return to track
+        Press <span style="color: #4ecdc4; font-weight: bold;">P</span> to start the race &nbsp;|&nbsp;
+        <span style="color: #4ecdc4; font-weight: bold;">B</span> to place bets &nbsp;|&nbsp;
+        <span style="color: #4ecdc4; font-weight: bold;">S</span> for the gate draw &nbsp;|&nbsp;
+        <span style="color: #4ecdc4; font-weight: bold;">A</span> to close and return to track
       </div>
     </div>
   `;
@@ -281,8 +425,13 @@ export const debugOverlayStyles = `
   max-width: 400px;
 `;
 
-export function renderDebugContent(currentTheme: string = "christmas"): string {
+export function renderDebugContent(
+  currentTheme: string = "christmas",
+  draftingPreset: string = "normal",
+): string {
   const themeName = currentTheme === "normal" ? "Normal" : "Christmas";
+  const draftingName =
+    draftingPreset.charAt(0).toUpperCase() + draftingPreset.slice(1);
   return `
     <div style="font-weight: bold; margin-bottom: 10px; color: #00ff00; font-size: 14px;">
       ⌨️ KEYBOARD CONTROLS
@@ -295,14 +444,26 @@ export function renderDebugContent(currentTheme: string = "christmas"): string {
       <div><span style="color: #ffff00;">T:</span> Trigger Crowd Wave</div>
       <div><span style="color: #ffff00;">D:</span> Toggle Debug Info</div>
       <div><span style="color: #ffff00;">Q:</span> Show Riders Roster</div>
+      <div><span style="color: #ffff00;">S:</span> Gate Draw Ceremony</div>
+      <div><span style="color: #ffff00;">B:</span> Place Bets</div>
+      <div><span style="color: #ffff00;">M:</span> Show Players</div>
+      <div><span style="color: #ffff00;">K:</span> Tournament Builder / Bracket</div>
+      <div><span style="color: #ffff00;">O:</span> Race Meeting Card</div>
+      <div><span style="color: #ffff00;">N:</span> Next Meeting / Tournament Race</div>
+      <div><span style="color: #ffff00;">C:</span> Championship Standings</div>
+      <div><span style="color: #ffff00;">G:</span> Stable Training</div>
       <div><span style="color: #ffff00;">W:</span> Show Podium</div>
+      <div><span style="color: #ffff00;">I:</span> Sectional Times</div>
+      <div><span style="color: #ffff00;">X:</span> Export Results</div>
       <div><span style="color: #ffff00;">A:</span> Return to Main</div>
+      <div><span style="color: #ffff00;">V:</span> Replay Last Race</div>
       <div style="margin-top: 10px; padding-top: 10px; border-top: 1px solid #00ff00;">
         <div><span style="color: #ffff00;">0:</span> Orbital Camera</div>
         <div><span style="color: #ffff00;">9:</span> Follow Camera</div>
         <div><span style="color: #ffff00;">-:</span> Finish Line Camera</div>
         <div><span style="color: #ffff00;">F:</span> Free Fly Camera [WASD + Space/Shift + Double-tap W Sprint]</div>
         <div><span style="color: #ffff00;">1-8:</span> Individual Horse Cameras</div>
+        <div><span style="color: #ffff00;">[ / ]:</span> Previous / Next Horse Camera</div>
       </div>
       <div style="margin-top: 10px; padding-top: 10px; border-top: 1px solid #00ff00;">
         <div style="display: flex; justify-content: space-between; align-items: center;">
@@ -318,7 +479,79 @@ export function renderDebugContent(currentTheme: string = "christmas"): string {
             border-radius: 4px;
           ">${themeName}</button>
         </div>
+        <div style="display: flex; justify-content: space-between; align-items: center; margin-top: 5px;">
+          <span style="color: #ffff00;">New Race Drafting:</span>
+          <button id="draftingToggle" style="
+            background: #00ff00;
+            color: #000;
+            border: none;
+            padding: 5px 12px;
+            cursor: pointer;
+            font-family: 'Courier New', monospace;
+            font-weight: bold;
+            border-radius: 4px;
+          ">${draftingName}</button>
+        </div>
+        <div id="debug-drafting" style="margin-top: 5px;"></div>
       </div>
     </div>
   `;
 }
+
+export function renderDraftingInfo(
+  drafting: Array<{ name: string; behind: string; strength: number }>,
+): string {
+  if (drafting.length === 0) {
+    return '<div style="color: #888;">No horses drafting</div>';
+  }
+
+  return drafting
+    .map(
+      (entry) =>
+        `<div>${entry.name} <span style="color: #888;">→</span> ${entry.behind} <span style="color: #ffff00;">${Math.round(entry.strength * 100)}%</span></div>`,
+    )
+    .join("");
+}
+
+// Replay Overlay Templates
+export const replayOverlayStyles = `
+  position: fixed;
+  bottom: 20px;
+  left: 50%;
+  transform: translateX(-50%);
+  background: rgba(0, 0, 0, 0.85);
+  color: white;
+  padding: 12px 20px;
+  font-family: monospace;
+  font-size: 13px;
+  border-radius: 8px;
+  border: 2px solid #ffe66d;
+  z-index: 1001;
+  width: 520px;
+  display: none;
+`;
+
+export function renderReplayContent(): string {
+  const buttonStyle =
+    "background: #444; color: white; border: 1px solid #666; padding: 5px 10px; cursor: pointer; font-family: monospace;";
+
+  return `
+    <div style="display: flex; justify-content: space-between; align-items: center; margin-bottom: 8px;">
+      <span style="font-weight: bold; color: #ffe66d;">⏪ REPLAY</span>
+      <span id="replayTime">00:00.000 / 00:00.000</span>
+    </div>
+    <input id="replayScrubber" type="range" min="0" max="1" step="0.001" value="0" style="width: 100%; margin-bottom: 8px;" />
+    <div style="display: flex; gap: 8px; align-items: center;">
+      <button id="replayBack" style="${buttonStyle}">⏮ -2s</button>
+      <button id="replayPlay" style="${buttonStyle} min-width: 80px;">⏸ Pause</button>
+      <button id="replayForward" style="${buttonStyle}">+2s ⏭</button>
+      <button id="replaySlower" style="${buttonStyle}">🐢</button>
+      <span id="replaySpeed" style="min-width: 45px; text-align: center;">1x</span>
+      <button id="replayFaster" style="${buttonStyle}">🐇</button>
+      <button id="replayExit" style="${buttonStyle} margin-left: auto;">Exit</button>
+    </div>
+    <div style="color: #888; font-size: 11px; margin-top: 8px; text-align: center;">
+      Space: Play/Pause &nbsp;|&nbsp; ←/→: Scrub &nbsp;|&nbsp; ↓/↑: Slow-mo &nbsp;|&nbsp; V: Exit Replay
+    </div>
+  `;
+}
@@ -0,0 +1,201 @@
+import { BET_TYPE_LABELS } from "../pariMutuel";
+import type { BetRecord } from "../playerProfileSchema";
+import { type PlayerProfiles, STARTING_BALANCE } from "../playerProfiles";
+import {
+  playersOverlayStyles,
+  renderPlayersContent,
+} from "./playersOverlayTemplates";
+
+const RECENT_BETS_SHOWN = 3;
+
+/**
+ * Player leaderboard ranked by balance, with profile management
+ */
+export class PlayersOverlay {
+  private overlayElement: HTMLDivElement;
+  private isVisible: boolean = false;
+  private profiles: PlayerProfiles;
+  private error: string | null = null;
+
+  constructor(profiles: PlayerProfiles) {
+    this.profiles = profiles;
+    this.overlayElement = this.createOverlay();
+    document.body.appendChild(this.overlayElement);
+  }
+
+  private createOverlay(): HTMLDivElement {
+    const overlay = document.createElement("div");
+    overlay.id = "players-overlay";
+    overlay.style.cssText = playersOverlayStyles;
+
+    // Typing a player name shouldn't trigger the keyboard shortcuts
+    overlay.addEventListener("keydown", (event) => {
+      if (event.target instanceof HTMLInputElement) {
+        event.stopPropagation();
+      }
+    });
+    return overlay;
+  }
+
+  private render(): void {
+    this.overlayElement.innerHTML = renderPlayersContent({
+      players: this.profiles.getRanked().map((profile) => ({
+        id: profile.id,
+        name: profile.name,
+        color: profile.color,
+        balance: profile.balance,
+        lifetimeProfit: profile.lifetimeProfit,
+        betCount: profile.history.length,
+        winCount: profile.history.filter((record) => record.outcome === "won")
+          .length,
+        recentBets: profile.history
+          .slice(-RECENT_BETS_SHOWN)
+          .reverse()
+          .map(describeBet),
+      })),
+      startingBalance: STARTING_BALANCE,
+      error: this.error,
+    });
+
+    this.attachEventListeners();
+  }
+
+  private attachEventListeners(): void {
+    this.overlayElement
+      .querySelector("#createPlayer")
+      ?.addEventListener("click", () => this.createPlayer());
+
+    this.overlayElement.querySelectorAll(".resetPlayer").forEach((button) => {
+      button.addEventListener("click", () => {
+        const id = (button as HTMLElement).getAttribute("data-player-id");
+        const profile = id ? this.profiles.getProfile(id) : undefined;
+        if (
+          profile &&
+          confirm(
+            `Reset ${profile.name} to ${STARTING_BALANCE} and clear their history?`,
+          )
+        ) {
+          this.profiles.reset(profile.id);
+          this.render();
+        }
+      });
+    });
+
+    this.overlayElement.querySelectorAll(".deletePlayer").forEach((button) => {
+      button.addEventListener("click", () => {
+        const id = (button as HTMLElement).getAttribute("data-player-id");
+        const profile = id ? this.profiles.getProfile(id) : undefined;
+        if (profile && confirm(`Delete ${profile.name}?`)) {
+          this.profiles.delete(profile.id);
+          this.render();
+        }
+      });
+    });
+
+    this.overlayElement
+      .querySelector("#exportPlayers")
+      ?.addEventListener("click", () => this.exportPlayers());
+
+    const importInput = this.overlayElement.querySelector(
+      "#importPlayersInput",
+    ) as HTMLInputElement | null;
+    this.overlayElement
+      .querySelector("#importPlayers")
+      ?.addEventListener("click", () => importInput?.click());
+    importInput?.addEventListener("change", (e) => this.handleImportFile(e));
+  }
+
+  private createPlayer(): void {
+    const nameInput = this.overlayElement.querySelector(
+      "#playerName",
+    ) as HTMLInputElement;
+    const colorInput = this.overlayElement.querySelector(
+      "#playerColor",
+    ) as HTMLInputElement;
+
+    const color = parseInt(colorInput.value.slice(1), 16);
+    const profile = this.profiles.create(nameInput.value, color);
+    this.error = profile
+      ? null
+      : nameInput.value.trim()
+        ? "A player with that name already exists."
+        : "Enter a player name.";
+    this.render();
+  }
+
+  private exportPlayers(): void {
+    const jsonString = JSON.stringify(this.profiles.toFile(), null, 2);
+    const blob = new Blob([jsonString], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `reindeer-players-${Date.now()}.json`;
+    link.click();
+
+    URL.revokeObjectURL(url);
+  }
+
+  private async handleImportFile(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+
+    try {
+      const json = JSON.parse(await file.text());
+
+      if (
+        this.profiles.getProfiles().length > 0 &&
+        !confirm(
+          `This will replace your current ${this.profiles.getProfiles().length} player(s). Continue?`,
+        )
+      ) {
+        return;
+      }
+
+      const validation = this.profiles.importFile(json);
+      if (!validation.success) {
+        const errorMessage = validation.issues
+          ? `${validation.error}:\n${validation.issues.join("\n")}`
+          : validation.error;
+        alert(errorMessage);
+        return;
+      }
+
+      this.error = null;
+      this.render();
+      alert("✅ Players imported successfully!");
+    } catch (error) {
+      const errorMsg =
+        error instanceof Error ? error.message : "Invalid JSON file format";
+      alert(`❌ Import Failed\n\n${errorMsg}`);
+    } finally {
+      input.value = ""; // Reset file input
+    }
+  }
+
+  public show(): void {
+    this.isVisible = true;
+    this.error = null;
+    this.render();
+    this.overlayElement.style.display = "flex";
+  }
+
+  public hide(): void {
+    this.isVisible = false;
+    this.overlayElement.style.display = "none";
+  }
+
+  public isShown(): boolean {
+    return this.isVisible;
+  }
+}
+
+// e.g. "Exacta Dasher > Comet: won 42.50"
+function describeBet(record: BetRecord): string {
+  const result =
+    record.outcome === "lost"
+      ? `lost ${record.stake.toFixed(2)}`
+      : `${record.outcome} ${record.payout.toFixed(2)}`;
+  return `${BET_TYPE_LABELS[record.type]} ${record.selection.join(" > ")}: ${result}`;
+}
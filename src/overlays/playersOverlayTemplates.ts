@@ -0,0 +1,122 @@
+export const playersOverlayStyles = `
+  position: fixed;
+  top: 0;
+  left: 0;
+  width: 100%;
+  height: 100%;
+  background: rgba(0, 0, 0, 0.85);
+  display: none;
+  align-items: center;
+  justify-content: center;
+  z-index: 1500;
+`;
+
+const inputStyles =
+  "padding: 6px; background: #333; color: white; border: 1px solid #555;";
+
+const buttonStyles =
+  "border: none; color: white; cursor: pointer; padding: 6px 12px; border-radius: 4px;";
+
+export interface PlayerRowData {
+  id: string;
+  name: string;
+  color: number;
+  balance: number;
+  lifetimeProfit: number;
+  betCount: number;
+  winCount: number;
+  recentBets: string[]; // Latest bets first, already described
+}
+
+export interface PlayersTemplateData {
+  players: PlayerRowData[]; // Ranked by balance
+  startingBalance: number;
+  error: string | null;
+}
+
+function colorHex(color: number): string {
+  return `#${color.toString(16).padStart(6, "0")}`;
+}
+
+function formatMoney(amount: number): string {
+  return amount.toFixed(2);
+}
+
+function renderPlayerRow(player: PlayerRowData, index: number): string {
+  const profitColor = player.lifetimeProfit >= 0 ? "#4ecdc4" : "#ff6b6b";
+  const recentHTML =
+    player.recentBets.length > 0
+      ? player.recentBets.join("<br />")
+      : '<span style="color: #666;">No bets yet</span>';
+
+  return `
+    <tr style="border-top: 1px solid #333; vertical-align: top;">
+      <td style="padding: 8px; font-size: 20px; font-weight: bold; color: #ffe66d;">${index + 1}</td>
+      <td style="padding: 8px;">
+        <span style="display: inline-block; width: 14px; height: 14px; border-radius: 50%; background: ${colorHex(player.color)}; margin-right: 6px; vertical-align: middle;"></span>
+        <strong>${player.name}</strong>
+        <div style="font-size: 11px; color: #aaa; margin-top: 4px;">${recentHTML}</div>
+      </td>
+      <td style="padding: 8px; text-align: right; font-weight: bold;">${formatMoney(player.balance)}</td>
+      <td style="padding: 8px; text-align: right; color: ${profitColor};">${player.lifetimeProfit >= 0 ? "+" : ""}${formatMoney(player.lifetimeProfit)}</td>
+      <td style="padding: 8px; text-align: right;">${player.winCount}/${player.betCount}</td>
+      <td style="padding: 8px; text-align: right; white-space: nowrap;">
+        <button class="resetPlayer" data-player-id="${player.id}" style="${buttonStyles} background: #a60;">Reset</button>
+        <button class="deletePlayer" data-player-id="${player.id}" style="${buttonStyles} background: #c33;">X</button>
+      </td>
+    </tr>
+  `;
+}
+
+export function renderPlayersContent(data: PlayersTemplateData): string {
+  const rowsHTML =
+    data.players.length > 0
+      ? data.players.map(renderPlayerRow).join("")
+      : '<tr><td colspan="6" style="padding: 12px; color: #888; text-align: center;">No players yet. Add one below.</td></tr>';
+
+  return `
+    <div style="
+      background: rgba(0, 0, 0, 0.95);
+      color: white;
+      padding: 30px;
+      border-radius: 12px;
+      width: 800px;
+      max-width: 90vw;
+      max-height: 90vh;
+      overflow-y: auto;
+      box-sizing: border-box;
+    ">
+      <h1 style="text-align: center; margin: 0 0 25px 0; font-size: 32px; color: #4ecdc4;">
+        PLAYERS
+      </h1>
+      <table style="width: 100%; border-collapse: collapse; font-size: 14px; margin-bottom: 20px;">
+        <tr style="color: #aaa; font-size: 11px;">
+          <th style="text-align: left; padding: 4px 8px;">#</th>
+          <th style="text-align: left; padding: 4px 8px;">PLAYER</th>
+          <th style="text-align: right; padding: 4px 8px;">BALANCE</th>
+          <th style="text-align: right; padding: 4px 8px;">PROFIT</th>
+          <th style="text-align: right; padding: 4px 8px;">WON</th>
+          <th></th>
+        </tr>
+        ${rowsHTML}
+      </table>
+      <div style="display: flex; gap: 8px; align-items: center; background: rgba(255, 255, 255, 0.05); padding: 15px; border-radius: 8px; margin-bottom: 10px;">
+        <input id="playerName" type="text" placeholder="New player name" style="flex: 1; ${inputStyles}" />
+        <input id="playerColor" type="color" value="#4ecdc4" style="width: 40px; height: 32px; padding: 0; border: none; background: none;" />
+        <button id="createPlayer" style="${buttonStyles} background: #0a6;">Add Player</button>
+      </div>
+      ${data.error ? `<div style="color: #ff6b6b; font-size: 12px; margin-bottom: 10px;">${data.error}</div>` : ""}
+      <div style="display: flex; gap: 8px; justify-content: center; margin-bottom: 20px;">
+        <button id="exportPlayers" style="${buttonStyles} background: #06a;">Export Players</button>
+        <button id="importPlayers" style="${buttonStyles} background: #06a;">Import Players</button>
+        <input id="importPlayersInput" type="file" accept=".json" style="display: none;" />
+      </div>
+      <div style="text-align: center; color: #888; font-size: 12px; margin-bottom: 10px;">
+        New players start with ${formatMoney(data.startingBalance)}. Players are saved in this browser.
+      </div>
+      <div style="text-align: center; color: #888; font-size: 14px; padding-top: 10px; border-top: 1px solid #333;">
+        Press <span style="color: #4ecdc4; font-weight: bold;">A</span> to close and return to track
+      </div>
+    </div>
+  `;
+}
@@ -0,0 +1,137 @@
+import type { ReplayPlayer } from "../raceReplay";
+import {
+  formatRaceTime,
+  renderReplayContent,
+  replayOverlayStyles,
+} from "./overlayTemplates";
+
+export class ReplayOverlay {
+  private overlayElement: HTMLDivElement;
+  private isVisible: boolean = false;
+  private player: ReplayPlayer | null = null;
+  private isScrubbing: boolean = false;
+  private onExit?: () => void;
+
+  private readonly SCRUB_SECONDS = 2;
+
+  constructor() {
+    this.overlayElement = this.createOverlay();
+    document.body.appendChild(this.overlayElement);
+  }
+
+  private createOverlay(): HTMLDivElement {
+    const overlay = document.createElement("div");
+    overlay.id = "replay-overlay";
+    overlay.style.cssText = replayOverlayStyles;
+    overlay.innerHTML = renderReplayContent();
+
+    overlay
+      .querySelector("#replayPlay")
+      ?.addEventListener("click", () => this.player?.togglePlay());
+    overlay
+      .querySelector("#replayBack")
+      ?.addEventListener("click", () => this.scrubBackward());
+    overlay
+      .querySelector("#replayForward")
+      ?.addEventListener("click", () => this.scrubForward());
+    overlay
+      .querySelector("#replaySlower")
+      ?.addEventListener("click", () => this.player?.slower());
+    overlay
+      .querySelector("#replayFaster")
+      ?.addEventListener("click", () => this.player?.faster());
+    overlay
+      .querySelector("#replayExit")
+      ?.addEventListener("click", () => this.onExit?.());
+
+    // Scrubber seeks as it is dragged, and the overlay stops updating it meanwhile
+    const scrubber = overlay.querySelector(
+      "#replayScrubber",
+    ) as HTMLInputElement;
+    scrubber.addEventListener("pointerdown", () => {
+      this.isScrubbing = true;
+    });
+    scrubber.addEventListener("pointerup", () => {
+      this.isScrubbing = false;
+    });
+    scrubber.addEventListener("input", () => {
+      if (!this.player) return;
+      this.player.seek(parseFloat(scrubber.value) * this.player.getDuration());
+    });
+
+    // Buttons shouldn't keep focus, or Space would click them again
+    overlay.querySelectorAll("button").forEach((button) => {
+      button.addEventListener("mouseup", () => button.blur());
+    });
+
+    return overlay;
+  }
+
+  public setExitCallback(callback: () => void): void {
+    this.onExit = callback;
+  }
+
+  public attach(player: ReplayPlayer): void {
+    this.player = player;
+    this.update();
+  }
+
+  public scrubBackward(): void {
+    this.player?.scrub(-this.SCRUB_SECONDS);
+  }
+
+  public scrubForward(): void {
+    this.player?.scrub(this.SCRUB_SECONDS);
+  }
+
+  /**
+   * Refresh the time, scrubber and transport labels from the player
+   */
+  public update(): void {
+    if (!this.player) return;
+
+    const time = this.player.getTime();
+    const duration = this.player.getDuration();
+
+    const timeLabel = this.overlayElement.querySelector("#replayTime");
+    if (timeLabel) {
+      timeLabel.textContent = `${formatRaceTime(time)} / ${formatRaceTime(duration)}`;
+    }
+
+    const scrubber = this.overlayElement.querySelector(
+      "#replayScrubber",
+    ) as HTMLInputElement;
+    if (scrubber && !this.isScrubbing) {
+      scrubber.value = duration > 0 ? (time / duration).toString() : "0";
+    }
+
+    const playButton = this.overlayElement.querySelector("#replayPlay");
+    if (playButton) {
+      playButton.textContent = this.player.isPlaying() ? "⏸ Pause" : "▶ Play";
+    }
+
+    const speedLabel = this.overlayElement.querySelector("#replaySpeed");
+    if (speedLabel) {
+      speedLabel.textContent = `${this.player.getSpeed()}x`;
+    }
+  }
+
+  public show(): void {
+    this.isVisible = true;
+    this.overlayElement.style.display = "block";
+  }
+
+  public hide(): void {
+    this.isVisible = false;
+    this.player = null;
+    this.overlayElement.style.display = "none";
+  }
+
+  public isShown(): boolean {
+    return this.isVisible;
+  }
+
+  public dispose(): void {
+    document.body.removeChild(this.overlayElement);
+  }
+}
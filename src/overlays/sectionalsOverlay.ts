@@ -0,0 +1,85 @@
+import type { Horse } from "../raceManager";
+import { ResultFormat } from "../raceResultExport";
+import { getFinalSectional, type RaceResult } from "../raceSimulation";
+import {
+  renderSectionalsContent,
+  sectionalsOverlayStyles,
+} from "./sectionalsOverlayTemplates";
+
+/**
+ * Full table of split times for a finished race
+ */
+export class SectionalsOverlay {
+  private overlayElement: HTMLDivElement;
+  private isVisible: boolean = false;
+  private onExport?: (format: ResultFormat) => void;
+
+  constructor() {
+    this.overlayElement = this.createOverlay();
+    document.body.appendChild(this.overlayElement);
+  }
+
+  private createOverlay(): HTMLDivElement {
+    const overlay = document.createElement("div");
+    overlay.id = "sectionals-overlay";
+    overlay.style.cssText = sectionalsOverlayStyles;
+    return overlay;
+  }
+
+  /**
+   * @param result - Result of the finished race
+   * @param horses - Field, for each horse's colour and stall
+   */
+  public show(result: RaceResult, horses: Horse[]): void {
+    const rows = result.finishers.map((finisher) => {
+      const horse = horses.find((h) => h.data.id === finisher.horseId);
+      return {
+        position: finisher.position,
+        name: finisher.name,
+        color: horse?.data.color ?? 0xffffff,
+        stall: horse?.state.stall ?? 0,
+        backRow: finisher.backRow,
+        splits: finisher.splits,
+        finishTime: finisher.finishTime,
+        finalSectional: getFinalSectional(finisher.splits, finisher.finishTime),
+      };
+    });
+
+    const finalSectionals = rows.flatMap((row) =>
+      row.finalSectional !== null ? [row.finalSectional] : [],
+    );
+
+    this.overlayElement.innerHTML = renderSectionalsContent({
+      splitLabels: result.splitPoints.map((point) => point.label),
+      rows,
+      fastestFinalSectional:
+        finalSectionals.length > 0 ? Math.min(...finalSectionals) : null,
+    });
+
+    this.overlayElement
+      .querySelector("#exportResultsJSON")
+      ?.addEventListener("click", () => this.onExport?.(ResultFormat.JSON));
+    this.overlayElement
+      .querySelector("#exportResultsCSV")
+      ?.addEventListener("click", () => this.onExport?.(ResultFormat.CSV));
+
+    this.isVisible = true;
+    this.overlayElement.style.display = "flex";
+  }
+
+  /**
+   * Called when an export button is clicked
+   */
+  public setExportCallback(callback: (format: ResultFormat) => void): void {
+    this.onExport = callback;
+  }
+
+  public hide(): void {
+    this.isVisible = false;
+    this.overlayElement.style.display = "none";
+  }
+
+  public isShown(): boolean {
+    return this.isVisible;
+  }
+}
@@ -0,0 +1,127 @@
+import { formatRaceTime } from "./overlayTemplates";
+
+export const sectionalsOverlayStyles = `
+  position: fixed;
+  top: 0;
+  left: 0;
+  width: 100%;
+  height: 100%;
+  background: rgba(0, 0, 0, 0.85);
+  display: none;
+  align-items: center;
+  justify-content: center;
+  z-index: 1500;
+`;
+
+const buttonStyles =
+  "border: none; color: white; cursor: pointer; padding: 6px 12px; border-radius: 4px;";
+
+export interface SectionalsRowData {
+  position: number;
+  name: string;
+  color: number;
+  stall: number;
+  backRow: boolean; // Started behind the front row, so its times aren't comparable
+  splits: (number | null)[]; // Race time at each split point
+  finishTime: number | null;
+  finalSectional: number | null; // Last split to the finish line
+}
+
+export interface SectionalsTemplateData {
+  splitLabels: string[];
+  rows: SectionalsRowData[]; // In finishing order
+  fastestFinalSectional: number | null;
+}
+
+function renderSplitCell(splits: (number | null)[], index: number): string {
+  const split = splits[index];
+  if (split === null) {
+    return '<td style="padding: 6px 8px; text-align: right; color: #555;">-</td>';
+  }
+
+  const previous = index > 0 ? splits[index - 1] : 0;
+  const sectional = previous !== null ? split - previous : null;
+  return `
+    <td style="padding: 6px 8px; text-align: right;">
+      ${formatRaceTime(split)}
+      ${sectional !== null ? `<div style="font-size: 11px; color: #888;">${sectional.toFixed(2)}s</div>` : ""}
+    </td>
+  `;
+}
+
+function renderRow(
+  row: SectionalsRowData,
+  data: SectionalsTemplateData,
+): string {
+  const colorHex = `#${row.color.toString(16).padStart(6, "0")}`;
+  const isFastest =
+    row.finalSectional !== null &&
+    row.finalSectional === data.fastestFinalSectional;
+
+  return `
+    <tr style="border-top: 1px solid #333;">
+      <td style="padding: 6px 8px;">${row.position}</td>
+      <td style="padding: 6px 8px; white-space: nowrap;">
+        <span style="display: inline-block; width: 10px; height: 10px; background: ${colorHex}; margin-right: 6px;"></span>${row.name}
+        <span style="color: #888;">[${row.stall}${row.backRow ? ", back row" : ""}]</span>
+      </td>
+      ${row.splits.map((_, index) => renderSplitCell(row.splits, index)).join("")}
+      <td style="padding: 6px 8px; text-align: right; ${isFastest ? "color: #4ecdc4; font-weight: bold;" : ""}">
+        ${row.finalSectional !== null ? `${row.finalSectional.toFixed(2)}s${isFastest ? " ★" : ""}` : "-"}
+      </td>
+      <td style="padding: 6px 8px; text-align: right; font-weight: bold;">
+        ${row.finishTime !== null ? formatRaceTime(row.finishTime) : "-"}
+      </td>
+    </tr>
+  `;
+}
+
+export function renderSectionalsContent(data: SectionalsTemplateData): string {
+  const splitHeaders = data.splitLabels
+    .map(
+      (label) =>
+        `<th style="text-align: right; padding: 4px 8px;">${label.toUpperCase()}</th>`,
+    )
+    .join("");
+
+  return `
+    <div style="
+      background: rgba(0, 0, 0, 0.95);
+      color: white;
+      padding: 30px;
+      border-radius: 12px;
+      width: 1000px;
+      max-width: 95vw;
+      max-height: 90vh;
+      overflow-y: auto;
+      box-sizing: border-box;
+    ">
+      <h1 style="text-align: center; margin: 0 0 10px 0; font-size: 32px; color: #4ecdc4;">
+        SECTIONAL TIMES
+      </h1>
+      <div style="text-align: center; color: #888; font-size: 12px; margin-bottom: 20px;">
+        Race time at each split, with the time taken since the previous split underneath
+      </div>
+      <table style="width: 100%; border-collapse: collapse; font-size: 13px; margin-bottom: 20px;">
+        <tr style="color: #aaa; font-size: 11px;">
+          <th style="text-align: left; padding: 4px 8px;">POS</th>
+          <th style="text-align: left; padding: 4px 8px;">HORSE</th>
+          ${splitHeaders}
+          <th style="text-align: right; padding: 4px 8px;">FINAL SECTIONAL</th>
+          <th style="text-align: right; padding: 4px 8px;">FINISH</th>
+        </tr>
+        ${data.rows.map((row) => renderRow(row, data)).join("")}
+      </table>
+      <div style="text-align: center; color: #aaa; font-size: 12px; margin-bottom: 20px;">
+        <span style="color: #4ecdc4;">★</span> Fastest final sectional (last split to the line)
+      </div>
+      <div style="display: flex; gap: 8px; justify-content: center; margin-bottom: 20px;">
+        <button id="exportResultsJSON" style="${buttonStyles} background: #06a;">Export Results JSON</button>
+        <button id="exportResultsCSV" style="${buttonStyles} background: #06a;">Export Results CSV</button>
+      </div>
+      <div style="text-align: center; color: #888; font-size: 14px; padding-top: 10px; border-top: 1px solid #333;">
+        Press <span style="color: #4ecdc4; font-weight: bold;">A</span> to close and return to track
+      </div>
+    </div>
+  `;
+}
@@ -0,0 +1,197 @@
+import {
+  MIN_TOURNAMENT_ENTRANTS,
+  TOURNAMENT_STAGE_LABELS,
+  type Tournament,
+  type TournamentRace,
+} from "../tournament";
+import {
+  type BracketRaceData,
+  renderTournamentBracket,
+  renderTournamentBuilder,
+  tournamentOverlayStyles,
+} from "./tournamentOverlayTemplates";
+
+const DEFAULT_ENTRANTS = 16;
+
+/**
+ * Tournament builder, and the bracket once a tournament is running
+ */
+export class TournamentOverlay {
+  private overlayElement: HTMLDivElement;
+  private isVisible: boolean = false;
+  private tournament: Tournament | null = null;
+  private builderSeed: number = Math.floor(Math.random() * 1000000);
+  private error: string | null = null;
+  private onCreate:
+    | ((names: string[], count: number, seed: number) => void)
+    | null = null;
+  private onNextRace: (() => void) | null = null;
+  private onEnd: (() => void) | null = null;
+
+  constructor() {
+    this.overlayElement = this.createOverlay();
+    document.body.appendChild(this.overlayElement);
+  }
+
+  private createOverlay(): HTMLDivElement {
+    const overlay = document.createElement("div");
+    overlay.id = "tournament-overlay";
+    overlay.style.cssText = tournamentOverlayStyles;
+
+    // Typing entrant names shouldn't trigger the keyboard shortcuts
+    overlay.addEventListener("keydown", (event) => {
+      if (
+        event.target instanceof HTMLInputElement ||
+        event.target instanceof HTMLTextAreaElement
+      ) {
+        event.stopPropagation();
+      }
+    });
+    return overlay;
+  }
+
+  /**
+   * Show the bracket for a tournament, or the builder when there is none
+   */
+  public update(tournament: Tournament | null): void {
+    this.tournament = tournament;
+    if (this.isVisible) this.render();
+  }
+
+  private render(): void {
+    if (!this.tournament) {
+      this.overlayElement.innerHTML = renderTournamentBuilder({
+        seed: this.builderSeed,
+        count: DEFAULT_ENTRANTS,
+        minEntrants: MIN_TOURNAMENT_ENTRANTS,
+        error: this.error,
+      });
+      this.overlayElement
+        .querySelector("#createTournament")
+        ?.addEventListener("click", () => this.createTournament());
+      return;
+    }
+
+    const tournament = this.tournament;
+    const currentRace = tournament.getCurrentRace();
+    const champion = tournament.getChampion();
+
+    this.overlayElement.innerHTML = renderTournamentBracket({
+      seed: tournament.getSeed(),
+      entrantCount: tournament.getHorses().length,
+      rounds: tournament.getRounds().map((round) => ({
+        label: TOURNAMENT_STAGE_LABELS[round.stage],
+        qualifiersPerRace: round.qualifiersPerRace,
+        races: round.races.map((race) =>
+          this.getRaceData(race, race === currentRace),
+        ),
+      })),
+      currentRaceLabel: currentRace?.label ?? null,
+      champion: champion
+        ? { name: champion.name, color: champion.color }
+        : null,
+    });
+
+    this.overlayElement
+      .querySelector("#nextTournamentRace")
+      ?.addEventListener("click", () => this.onNextRace?.());
+    this.overlayElement
+      .querySelector("#endTournament")
+      ?.addEventListener("click", () => {
+        if (confirm("End the tournament? The bracket will be lost.")) {
+          this.onEnd?.();
+        }
+      });
+  }
+
+  private getRaceData(
+    race: TournamentRace,
+    isCurrent: boolean,
+  ): BracketRaceData {
+    const tournament = this.tournament!;
+    const qualifiers = tournament.getQualifiers(race);
+    const ids = race.finishOrder ?? race.horseIds;
+
+    return {
+      label: race.label,
+      isCurrent,
+      horses: ids.map((id, index) => {
+        const horse = tournament.getHorse(id);
+        return {
+          name: horse?.name ?? "Unknown",
+          color: horse?.color ?? 0xffffff,
+          place: race.positions?.[index] ?? null,
+          qualified: qualifiers.includes(id),
+        };
+      }),
+    };
+  }
+
+  private createTournament(): void {
+    const names = (
+      this.overlayElement.querySelector(
+        "#tournamentNames",
+      ) as HTMLTextAreaElement
+    ).value
+      .split("\n")
+      .map((name) => name.trim())
+      .filter((name) => name.length > 0);
+    const count = Math.max(
+      names.length,
+      parseInt(
+        (
+          this.overlayElement.querySelector(
+            "#tournamentCount",
+          ) as HTMLInputElement
+        ).value,
+        10,
+      ) || 0,
+    );
+    const seed = parseInt(
+      (this.overlayElement.querySelector("#tournamentSeed") as HTMLInputElement)
+        .value,
+      10,
+    );
+
+    if (count < MIN_TOURNAMENT_ENTRANTS) {
+      this.error = `A tournament needs at least ${MIN_TOURNAMENT_ENTRANTS} horses.`;
+    } else if (Number.isNaN(seed)) {
+      this.error = "Enter a tournament seed.";
+    } else {
+      this.error = null;
+      this.builderSeed = seed;
+      this.onCreate?.(names, count, seed);
+      return;
+    }
+    this.render();
+  }
+
+  public setCreateCallback(
+    callback: (names: string[], count: number, seed: number) => void,
+  ): void {
+    this.onCreate = callback;
+  }
+
+  public setNextRaceCallback(callback: () => void): void {
+    this.onNextRace = callback;
+  }
+
+  public setEndCallback(callback: () => void): void {
+    this.onEnd = callback;
+  }
+
+  public show(): void {
+    this.isVisible = true;
+    this.render();
+    this.overlayElement.style.display = "flex";
+  }
+
+  public hide(): void {
+    this.isVisible = false;
+    this.overlayElement.style.display = "none";
+  }
+
+  public isShown(): boolean {
+    return this.isVisible;
+  }
+}
@@ -0,0 +1,156 @@
+export const tournamentOverlayStyles = `
+  position: fixed;
+  top: 0;
+  left: 0;
+  width: 100%;
+  height: 100%;
+  background: rgba(0, 0, 0, 0.85);
+  display: none;
+  align-items: center;
+  justify-content: center;
+  z-index: 1500;
+`;
+
+const inputStyles =
+  "padding: 6px; background: #333; color: white; border: 1px solid #555; box-sizing: border-box;";
+
+const buttonStyles =
+  "border: none; color: white; cursor: pointer; padding: 10px 16px; border-radius: 4px;";
+
+export interface BracketHorseData {
+  name: string;
+  color: number;
+  place: number | null; // Finishing place once the race is run
+  qualified: boolean;
+}
+
+export interface BracketRaceData {
+  label: string;
+  horses: BracketHorseData[]; // Finishing order once run, otherwise the draw
+  isCurrent: boolean;
+}
+
+export interface BracketRoundData {
+  label: string;
+  qualifiersPerRace: number;
+  races: BracketRaceData[];
+}
+
+export interface TournamentTemplateData {
+  seed: number;
+  entrantCount: number;
+  rounds: BracketRoundData[];
+  currentRaceLabel: string | null;
+  champion: { name: string; color: number } | null;
+}
+
+export interface TournamentBuilderData {
+  seed: number;
+  count: number;
+  minEntrants: number;
+  error: string | null;
+}
+
+function colorHex(color: number): string {
+  return `#${color.toString(16).padStart(6, "0")}`;
+}
+
+const footerHTML = `
+  <div style="text-align: center; color: #888; font-size: 14px; padding-top: 10px; border-top: 1px solid #333;">
+    Press <span style="color: #4ecdc4; font-weight: bold;">A</span> to close and return to track
+  </div>
+`;
+
+export function renderTournamentBuilder(data: TournamentBuilderData): string {
+  return `
+    <div style="background: rgba(0, 0, 0, 0.95); color: white; padding: 30px; border-radius: 12px; width: 500px; max-width: 90vw; box-sizing: border-box;">
+      <h1 style="text-align: center; margin: 0 0 20px 0; font-size: 32px; color: #4ecdc4;">NEW TOURNAMENT</h1>
+      <label style="display: block; margin-bottom: 4px; font-size: 12px; color: #aaa;">Entrants (one name per line, blank for random names)</label>
+      <textarea id="tournamentNames" rows="8" style="width: 100%; resize: vertical; ${inputStyles}"></textarea>
+      <div style="display: flex; gap: 10px; margin-top: 10px;">
+        <div style="flex: 1;">
+          <label style="display: block; margin-bottom: 4px; font-size: 12px; color: #aaa;">Number of Horses</label>
+          <input id="tournamentCount" type="number" min="${data.minEntrants}" step="1" value="${data.count}" style="width: 100%; ${inputStyles}" />
+        </div>
+        <div style="flex: 1;">
+          <label style="display: block; margin-bottom: 4px; font-size: 12px; color: #aaa;">Tournament Seed</label>
+          <input id="tournamentSeed" type="number" step="1" value="${data.seed}" style="width: 100%; ${inputStyles}" />
+        </div>
+      </div>
+      <div style="font-size: 11px; color: #888; margin-top: 8px;">
+        More names than horses adds horses. Heats hold up to 8, the top finishers go through to the next round.
+      </div>
+      ${data.error ? `<div style="color: #ff6b6b; font-size: 12px; margin-top: 8px;">${data.error}</div>` : ""}
+      <button id="createTournament" style="${buttonStyles} background: #0a6; width: 100%; margin: 15px 0 20px 0;">
+        Create Tournament
+      </button>
+      ${footerHTML}
+    </div>
+  `;
+}
+
+function renderRace(race: BracketRaceData): string {
+  const horsesHTML = race.horses
+    .map(
+      (horse) => `
+        <div style="display: flex; align-items: center; gap: 6px; padding: 2px 0; color: ${horse.qualified ? "#4ecdc4" : horse.place !== null ? "#888" : "#ddd"};">
+          <span style="width: 16px; text-align: right; font-size: 11px; color: #ffe66d;">${horse.place ?? ""}</span>
+          <span style="display: inline-block; width: 10px; height: 10px; background: ${colorHex(horse.color)};"></span>
+          <span style="white-space: nowrap; overflow: hidden; text-overflow: ellipsis;">${horse.name}</span>
+        </div>
+      `,
+    )
+    .join("");
+
+  return `
+    <div style="background: rgba(255, 255, 255, 0.05); border: 2px solid ${race.isCurrent ? "#ffe66d" : "transparent"}; border-radius: 8px; padding: 8px 10px; margin-bottom: 10px; font-size: 12px;">
+      <div style="font-weight: bold; color: ${race.isCurrent ? "#ffe66d" : "#4ecdc4"}; margin-bottom: 4px;">${race.label}</div>
+      ${horsesHTML || '<div style="color: #666;">To be decided</div>'}
+    </div>
+  `;
+}
+
+export function renderTournamentBracket(data: TournamentTemplateData): string {
+  const roundsHTML = data.rounds
+    .map(
+      (round) => `
+        <div style="min-width: 170px; flex: 1; display: flex; flex-direction: column; justify-content: center;">
+          <div style="text-align: center; color: #aaa; font-size: 11px; margin-bottom: 8px;">
+            ${round.label.toUpperCase()}${round.qualifiersPerRace > 0 ? ` (TOP ${round.qualifiersPerRace} GO THROUGH)` : ""}
+          </div>
+          ${round.races.map(renderRace).join("")}
+        </div>
+      `,
+    )
+    .join("");
+
+  const status = data.champion
+    ? `<div style="text-align: center; font-size: 22px; margin-bottom: 15px;">
+        🏆 Champion: <span style="display: inline-block; width: 14px; height: 14px; background: ${colorHex(data.champion.color)};"></span>
+        <strong style="color: #ffe66d;">${data.champion.name}</strong>
+      </div>`
+    : `<div style="text-align: center; color: #ddd; margin-bottom: 15px;">
+        Next up: <strong style="color: #ffe66d;">${data.currentRaceLabel}</strong>
+      </div>`;
+
+  return `
+    <div style="background: rgba(0, 0, 0, 0.95); color: white; padding: 30px; border-radius: 12px; width: 1100px; max-width: 95vw; max-height: 90vh; overflow: auto; box-sizing: border-box;">
+      <h1 style="text-align: center; margin: 0 0 10px 0; font-size: 32px; color: #4ecdc4;">TOURNAMENT</h1>
+      <div style="text-align: center; color: #888; font-size: 12px; margin-bottom: 15px;">
+        ${data.entrantCount} horses &nbsp;|&nbsp; Seed ${data.seed}
+      </div>
+      ${status}
+      <div style="display: flex; gap: 15px; margin-bottom: 20px; overflow-x: auto;">
+        ${roundsHTML}
+      </div>
+      <div style="display: flex; gap: 10px; justify-content: center; margin-bottom: 20px;">
+        ${data.champion ? "" : `<button id="nextTournamentRace" style="${buttonStyles} background: #0a6;">Go to ${data.currentRaceLabel}</button>`}
+        <button id="endTournament" style="${buttonStyles} background: #c33;">End Tournament</button>
+      </div>
+      <div style="text-align: center; color: #888; font-size: 14px; padding-top: 10px; border-top: 1px solid #333;">
+        Press <span style="color: #4ecdc4; font-weight: bold;">N</span> for the next race &nbsp;|&nbsp;
+        <span style="color: #4ecdc4; font-weight: bold;">A</span> to close and return to track
+      </div>
+    </div>
+  `;
+}
@@ -0,0 +1,103 @@
+import type { Stable, TrainingReport } from "../stable";
+import type { TrainingActivity } from "../training";
+import {
+  renderTrainingContent,
+  trainingOverlayStyles,
+} from "./trainingOverlayTemplates";
+
+/**
+ * Weekly training schedules for the stable horses
+ */
+export class TrainingOverlay {
+  private overlayElement: HTMLDivElement;
+  private isVisible: boolean = false;
+  private stable: Stable;
+  private reports: TrainingReport[] = [];
+  private onWeekTrained: (() => void) | null = null;
+
+  constructor(stable: Stable) {
+    this.stable = stable;
+    this.overlayElement = this.createOverlay();
+    document.body.appendChild(this.overlayElement);
+  }
+
+  private createOverlay(): HTMLDivElement {
+    const overlay = document.createElement("div");
+    overlay.id = "training-overlay";
+    overlay.style.cssText = trainingOverlayStyles;
+
+    // Picking an activity with the keyboard shouldn't trigger the shortcuts
+    overlay.addEventListener("keydown", (event) => {
+      if (event.target instanceof HTMLSelectElement) {
+        event.stopPropagation();
+      }
+    });
+    return overlay;
+  }
+
+  /**
+   * Called after each week of training, so the race can pick up the new stats
+   */
+  public setWeekCallback(callback: () => void): void {
+    this.onWeekTrained = callback;
+  }
+
+  private render(): void {
+    this.overlayElement.innerHTML = renderTrainingContent({
+      week: this.stable.getWeek(),
+      horses: this.stable.getEntries().map(({ horse, training }) => ({
+        id: horse.id,
+        name: horse.name,
+        color: horse.color,
+        stats: horse.stats,
+        schedule: training.schedule,
+        fatigue: training.fatigue,
+        injuryWeeks: training.injuryWeeks,
+      })),
+      reports: this.reports,
+    });
+
+    this.attachEventListeners();
+  }
+
+  private attachEventListeners(): void {
+    this.overlayElement.querySelectorAll(".trainingDay").forEach((select) => {
+      select.addEventListener("change", () => {
+        const element = select as HTMLSelectElement;
+        const horseId = element.getAttribute("data-horse-id");
+        const day = parseInt(element.getAttribute("data-day") ?? "", 10);
+        if (horseId && !Number.isNaN(day)) {
+          this.stable.setTrainingDay(
+            horseId,
+            day,
+            element.value as TrainingActivity,
+          );
+        }
+      });
+    });
+
+    this.overlayElement
+      .querySelector("#trainWeek")
+      ?.addEventListener("click", () => {
+        this.reports = this.stable.trainWeek();
+        this.render();
+        this.onWeekTrained?.();
+      });
+  }
+
+  public show(): void {
+    this.isVisible = true;
+    this.reports = [];
+    this.render();
+    this.overlayElement.style.display = "flex";
+  }
+
+  public hide(): void {
+    this.isVisible = false;
+    this.overlayElement.style.display = "none";
+  }
+
+  public isShown(): boolean {
+    return this.isVisible;
+  }
+}
@@ -0,0 +1,187 @@
+import type { HorseStats } from "../horseStats";
+import type { TrainingReport } from "../stable";
+import {
+  TRAINING_ACTIVITY_LABELS,
+  TRAINING_DAYS,
+  type TrainingActivity,
+} from "../training";
+
+export const trainingOverlayStyles = `
+  position: fixed;
+  top: 0;
+  left: 0;
+  width: 100%;
+  height: 100%;
+  background: rgba(0, 0, 0, 0.85);
+  display: none;
+  align-items: center;
+  justify-content: center;
+  z-index: 1500;
+`;
+
+const buttonStyles =
+  "border: none; color: white; cursor: pointer; padding: 6px 12px; border-radius: 4px;";
+
+// Short labels to fit a week of activities across one row
+const ACTIVITY_SHORT_LABELS: Record<TrainingActivity, string> = {
+  "speed-work": "Speed",
+  "stamina-gallop": "Stamina",
+  "gate-practice": "Gate",
+  rest: "Rest",
+};
+
+export interface TrainingHorseData {
+  id: string;
+  name: string;
+  color: number;
+  stats: HorseStats;
+  schedule: TrainingActivity[];
+  fatigue: number; // 0-1
+  injuryWeeks: number;
+}
+
+export interface TrainingTemplateData {
+  week: number;
+  horses: TrainingHorseData[];
+  reports: TrainingReport[]; // From the last week run, empty until one is
+}
+
+function colorHex(color: number): string {
+  return `#${color.toString(16).padStart(6, "0")}`;
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}`;
+}
+
+function fatigueColor(fatigue: number): string {
+  if (fatigue > 0.6) return "#ff6b6b";
+  if (fatigue > 0.35) return "#ffe66d";
+  return "#4ecdc4";
+}
+
+function renderDaySelect(
+  horseId: string,
+  day: number,
+  activity: TrainingActivity,
+  disabled: boolean,
+): string {
+  const options = (Object.keys(TRAINING_ACTIVITY_LABELS) as TrainingActivity[])
+    .map(
+      (option) =>
+        `<option value="${option}" title="${TRAINING_ACTIVITY_LABELS[option]}" ${option === activity ? "selected" : ""}>${ACTIVITY_SHORT_LABELS[option]}</option>`,
+    )
+    .join("");
+
+  return `
+    <select class="trainingDay" data-horse-id="${horseId}" data-day="${day}" ${disabled ? "disabled" : ""} title="${TRAINING_DAYS[day]}" style="padding: 3px; background: #333; color: white; border: 1px solid #555; font-size: 11px;">
+      ${options}
+    </select>
+  `;
+}
+
+function renderHorseRow(horse: TrainingHorseData): string {
+  const injured = horse.injuryWeeks > 0;
+  const status = injured
+    ? `<span style="color: #ff6b6b;">Injured, ${horse.injuryWeeks} week${horse.injuryWeeks === 1 ? "" : "s"}</span>`
+    : `<span style="color: ${fatigueColor(horse.fatigue)};">Fatigue ${percent(horse.fatigue)}%</span>`;
+
+  return `
+    <tr style="border-top: 1px solid #333;">
+      <td style="padding: 6px 8px;">
+        <span style="display: inline-block; width: 10px; height: 10px; background: ${colorHex(horse.color)}; margin-right: 6px;"></span>${horse.name}
+        <div style="font-size: 11px; color: #aaa;">
+          SPD ${percent(horse.stats.speed)} | STA ${percent(horse.stats.stamina)} | ACC ${percent(horse.stats.acceleration)}
+        </div>
+      </td>
+      <td style="padding: 6px 8px; font-size: 12px;">${status}</td>
+      <td style="padding: 6px 8px; white-space: nowrap;">
+        ${horse.schedule.map((activity, day) => renderDaySelect(horse.id, day, activity, injured)).join("")}
+      </td>
+    </tr>
+  `;
+}
+
+function renderStatChange(label: string, before: number, after: number) {
+  const change = Math.round((after - before) * 1000) / 10;
+  if (change === 0) return "";
+  const color = change > 0 ? "#4ecdc4" : "#ff6b6b";
+  return `<span style="color: ${color}; margin-right: 8px;">${label} ${change > 0 ? "+" : ""}${change.toFixed(1)}</span>`;
+}
+
+function renderReport(report: TrainingReport): string {
+  const changes = [
+    renderStatChange("SPD", report.before.speed, report.after.speed),
+    renderStatChange("STA", report.before.stamina, report.after.stamina),
+    renderStatChange(
+      "ACC",
+      report.before.acceleration,
+      report.after.acceleration,
+    ),
+  ].join("");
+
+  return `
+    <div style="font-size: 12px; padding: 3px 0;">
+      <strong>${report.name}</strong>
+      ${changes || '<span style="color: #888; margin-right: 8px;">No change</span>'}
+      ${report.injured ? `<span style="color: #ff6b6b;">Injured for ${report.injuryWeeks} week${report.injuryWeeks === 1 ? "" : "s"}!</span>` : ""}
+    </div>
+  `;
+}
+
+export function renderTrainingContent(data: TrainingTemplateData): string {
+  const dayHeaders = TRAINING_DAYS.join(" / ");
+  const rowsHTML =
+    data.horses.length > 0
+      ? data.horses.map(renderHorseRow).join("")
+      : '<tr><td colspan="3" style="padding: 12px; color: #888; text-align: center;">No horses in the stable. Save horses from the editor to train them.</td></tr>';
+
+  const reportHTML =
+    data.reports.length > 0
+      ? `
+        <div style="background: rgba(255, 255, 255, 0.05); padding: 15px; border-radius: 8px; margin-bottom: 20px;">
+          <div style="font-size: 12px; color: #aaa; margin-bottom: 6px;">WEEK ${data.week} REPORT</div>
+          ${data.reports.map(renderReport).join("")}
+        </div>
+      `
+      : "";
+
+  return `
+    <div style="
+      background: rgba(0, 0, 0, 0.95);
+      color: white;
+      padding: 30px;
+      border-radius: 12px;
+      width: 900px;
+      max-width: 95vw;
+      max-height: 90vh;
+      overflow-y: auto;
+      box-sizing: border-box;
+    ">
+      <h1 style="text-align: center; margin: 0 0 10px 0; font-size: 32px; color: #4ecdc4;">
+        TRAINING
+      </h1>
+      <div style="text-align: center; color: #888; font-size: 12px; margin-bottom: 20px;">
+        Week ${data.week} of the campaign
+      </div>
+      <table style="width: 100%; border-collapse: collapse; font-size: 14px; margin-bottom: 20px;">
+        <tr style="color: #aaa; font-size: 11px;">
+          <th style="text-align: left; padding: 4px 8px;">HORSE</th>
+          <th style="text-align: left; padding: 4px 8px;">CONDITION</th>
+          <th style="text-align: left; padding: 4px 8px;">SCHEDULE (${dayHeaders})</th>
+        </tr>
+        ${rowsHTML}
+      </table>
+      ${reportHTML}
+      <div style="display: flex; gap: 8px; justify-content: center; margin-bottom: 10px;">
+        <button id="trainWeek" ${data.horses.length === 0 ? "disabled" : ""} style="${buttonStyles} background: #0a6;">Train One Week</button>
+      </div>
+      <div style="text-align: center; color: #888; font-size: 12px; margin-bottom: 20px;">
+        Work builds stats but tires a horse, and working a tired horse risks injury. Racing tires a horse too.
+      </div>
+      <div style="text-align: center; color: #888; font-size: 14px; padding-top: 10px; border-top: 1px solid #333;">
+        Press <span style="color: #4ecdc4; font-weight: bold;">A</span> to close and return to track
+      </div>
+    </div>
+  `;
+}
@@ -0,0 +1,264 @@
+/**
+ * Pari-mutuel betting.
+ * Every bet type has its own pool. After the race each pool (less the takeout)
+ * is shared between the winning tickets in proportion to their stakes, so the
+ * payouts depend on how everyone else bet rather than on fixed odds.
+ */
+
+export const BetType = {
+  WIN: "win", // Horse finishes 1st
+  PLACE: "place", // Horse finishes in the top 2
+  SHOW: "show", // Horse finishes in the top 3
+  EXACTA: "exacta", // First two in the exact order
+  TRIFECTA: "trifecta", // First three in the exact order
+} as const;
+
+export type BetType = (typeof BetType)[keyof typeof BetType];
+
+export const BET_TYPES: BetType[] = Object.values(BetType);
+
+export const BET_TYPE_LABELS: Record<BetType, string> = {
+  win: "Win",
+  place: "Place",
+  show: "Show",
+  exacta: "Exacta",
+  trifecta: "Trifecta",
+};
+
+// Number of horses picked for each bet type
+export const BET_SELECTION_SIZE: Record<BetType, number> = {
+  win: 1,
+  place: 1,
+  show: 1,
+  exacta: 2,
+  trifecta: 3,
+};
+
+// Finishing places that pay out on single-horse pools
+const PAYING_PLACES: Record<BetType, number> = {
+  win: 1,
+  place: 2,
+  show: 3,
+  exacta: 2,
+  trifecta: 3,
+};
+
+export interface Bet {
+  id: string;
+  player: string; // Player profile id
+  type: BetType;
+  selection: string[]; // Horse ids, in finishing order for exactas and trifectas
+  stake: number;
+}
+
+export type BetOutcome = "won" | "lost" | "refunded";
+
+export interface SettledBet {
+  bet: Bet;
+  outcome: BetOutcome;
+  payout: number; // Total returned, stake included (0 for a losing bet)
+}
+
+export interface PoolSummary {
+  type: BetType;
+  total: number; // Stakes in the pool (refunds excluded)
+  winningSelections: string[][]; // Selections that paid, more than one after a dead heat
+}
+
+export interface Settlement {
+  bets: SettledBet[];
+  pools: PoolSummary[];
+}
+
+/**
+ * Horses grouped by finishing position, winner first.
+ * Horses sharing a position (a dead heat) are in the same group.
+ */
+export type FinishingOrder = string[][];
+
+/**
+ * Group a leaderboard into a finishing order (entries with the same position dead-heated)
+ */
+export function toFinishingOrder(
+  standings: { position: number; horseId: string }[],
+): FinishingOrder {
+  const groups = new Map<number, string[]>();
+  standings.forEach((standing) => {
+    const group = groups.get(standing.position) ?? [];
+    group.push(standing.horseId);
+    groups.set(standing.position, group);
+  });
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, horseIds]) => horseIds);
+}
+
+/**
+ * Total staked on each selection of a pool
+ */
+export function getPoolTotals(
+  bets: Bet[],
+  type: BetType,
+): { total: number; bySelection: Map<string, number> } {
+  const bySelection = new Map<string, number>();
+  let total = 0;
+
+  bets
+    .filter((bet) => bet.type === type)
+    .forEach((bet) => {
+      const key = selectionKey(bet.selection);
+      bySelection.set(key, (bySelection.get(key) ?? 0) + bet.stake);
+      total += bet.stake;
+    });
+
+  return { total, bySelection };
+}
+
+/**
+ * Settle every bet against the finishing order
+ * @param runners - Ids of the horses that ran; bets on anyone else (scratched) are refunded
+ * @param takeout - Share of each pool kept back before paying out (0 = everything is paid back)
+ */
+export function settleBets(
+  bets: Bet[],
+  order: FinishingOrder,
+  runners: Set<string>,
+  takeout: number = 0,
+): Settlement {
+  const settled: SettledBet[] = [];
+  const pools: PoolSummary[] = [];
+
+  // Bets involving a scratched horse come out of the pools and are refunded
+  const liveBets = bets.filter((bet) => {
+    if (bet.selection.every((horseId) => runners.has(horseId))) return true;
+    settled.push({ bet, outcome: "refunded", payout: bet.stake });
+    return false;
+  });
+
+  const positions = getFinishingSlots(order);
+
+  BET_TYPES.forEach((type) => {
+    const poolBets = liveBets.filter((bet) => bet.type === type);
+    const { total, bySelection } = getPoolTotals(poolBets, type);
+
+    const isWinner =
+      BET_SELECTION_SIZE[type] === 1
+        ? (selection: string[]) => isPaidPlace(positions, selection[0], type)
+        : (selection: string[]) => isExactOrder(positions, selection);
+
+    // Winning selections somebody actually backed
+    const winningKeys = [...bySelection.keys()].filter((key) =>
+      isWinner(parseSelectionKey(key)),
+    );
+    pools.push({
+      type,
+      total,
+      winningSelections: winningKeys.map(parseSelectionKey),
+    });
+
+    // Nobody picked a winner: the pool is handed back
+    if (winningKeys.length === 0) {
+      poolBets.forEach((bet) => {
+        settled.push({ bet, outcome: "refunded", payout: bet.stake });
+      });
+      return;
+    }
+
+    // Winning stakes come back first, then the profit is split evenly between
+    // the winning selections (dead heats) and pro rata between their backers
+    const netPool = total * (1 - takeout);
+    const winningStake = winningKeys.reduce(
+      (sum, key) => sum + (bySelection.get(key) ?? 0),
+      0,
+    );
+    const profitPerSelection =
+      Math.max(0, netPool - winningStake) / winningKeys.length;
+
+    poolBets.forEach((bet) => {
+      const key = selectionKey(bet.selection);
+      if (!winningKeys.includes(key)) {
+        settled.push({ bet, outcome: "lost", payout: 0 });
+        return;
+      }
+
+      const selectionStake = bySelection.get(key) ?? bet.stake;
+      const payout =
+        bet.stake + profitPerSelection * (bet.stake / selectionStake);
+      settled.push({ bet, outcome: "won", payout: roundPayout(payout) });
+    });
+  });
+
+  // Keep the bets in the order they were placed
+  settled.sort((a, b) => bets.indexOf(a.bet) - bets.indexOf(b.bet));
+  return { bets: settled, pools };
+}
+
+/**
+ * Net winnings (payouts less stakes) for each player
+ */
+export function getPlayerTotals(settlement: Settlement): Map<string, number> {
+  const totals = new Map<string, number>();
+  settlement.bets.forEach(({ bet, payout }) => {
+    totals.set(
+      bet.player,
+      roundPayout((totals.get(bet.player) ?? 0) + payout - bet.stake),
+    );
+  });
+  return totals;
+}
+
+/**
+ * First and last finishing slot (1-based) each horse covers.
+ * A dead heat for 2nd between two horses covers slots 2 and 3 for both.
+ */
+function getFinishingSlots(
+  order: FinishingOrder,
+): Map<string, { first: number; last: number }> {
+  const slots = new Map<string, { first: number; last: number }>();
+  let slot = 1;
+  order.forEach((group) => {
+    group.forEach((horseId) => {
+      slots.set(horseId, { first: slot, last: slot + group.length - 1 });
+    });
+    slot += group.length;
+  });
+  return slots;
+}
+
+function isPaidPlace(
+  slots: Map<string, { first: number; last: number }>,
+  horseId: string,
+  type: BetType,
+): boolean {
+  const slot = slots.get(horseId);
+  return slot !== undefined && slot.first <= PAYING_PLACES[type];
+}
+
+/**
+ * True if each pick could have filled its slot (dead heats allow either order)
+ */
+function isExactOrder(
+  slots: Map<string, { first: number; last: number }>,
+  selection: string[],
+): boolean {
+  if (new Set(selection).size !== selection.length) return false;
+  return selection.every((horseId, index) => {
+    const slot = slots.get(horseId);
+    const place = index + 1;
+    return slot !== undefined && slot.first <= place && place <= slot.last;
+  });
+}
+
+function selectionKey(selection: string[]): string {
+  return selection.join(">");
+}
+
+function parseSelectionKey(key: string): string[] {
+  return key.split(">");
+}
+
+// Pay out to the nearest cent
+function roundPayout(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
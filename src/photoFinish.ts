@@ -8,6 +8,7 @@ import {
 
 export class PhotoFinish {
   private capturedImageDataURL: string | null = null;
+  private verdicts: string[] = []; // Placings the photo settled (see getPhotoVerdicts)
   private thumbnailElement: HTMLDivElement | null = null;
   private modalElement: HTMLDivElement | null = null;
 
@@ -55,6 +56,30 @@ export class PhotoFinish {
     }
   }
 
+  /**
+   * Show the judge's verdicts with the photo, or none when no placing was close
+   */
+  public setVerdicts(verdicts: string[]): void {
+    this.verdicts = verdicts;
+    this.updateVerdicts();
+  }
+
+  private updateVerdicts(): void {
+    const caption = this.thumbnailElement?.querySelector(
+      "#photo-finish-caption",
+    );
+    if (caption) {
+      caption.textContent = this.verdicts[0] ?? "PHOTO FINISH";
+    }
+
+    const verdict = this.modalElement?.querySelector("#photo-finish-verdict");
+    if (verdict) {
+      verdict.innerHTML = this.verdicts
+        .map((line) => `<div>${line}</div>`)
+        .join("");
+    }
+  }
+
   private createThumbnail(): void {
     this.thumbnailElement = document.createElement("div");
     this.thumbnailElement.id = "photo-finish-thumbnail";
@@ -171,6 +196,7 @@ export class PhotoFinish {
 
   public clear(): void {
     this.capturedImageDataURL = null;
+    this.setVerdicts([]);
     if (this.thumbnailElement) {
       this.thumbnailElement.style.display = "none";
     }
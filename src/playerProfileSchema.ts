@@ -0,0 +1,60 @@
+import { z } from "zod";
+
+/**
+ * Zod schema for validating saved and imported player profiles
+ */
+
+const BetRecordSchema = z.object({
+  date: z.number().int(), // When the bet was settled (ms since epoch)
+  type: z.enum(["win", "place", "show", "exacta", "trifecta"]),
+  selection: z.array(z.string()).min(1).max(3), // Horse names, in finishing order for exotics
+  stake: z.number().positive(),
+  payout: z.number().min(0),
+  outcome: z.enum(["won", "lost", "refunded"]),
+});
+
+const PlayerProfileSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  color: z.number().int().min(0).max(0xffffff),
+  balance: z.number(),
+  lifetimeProfit: z.number(),
+  history: z.array(BetRecordSchema),
+});
+
+export const PlayerProfilesFileSchema = z.object({
+  version: z.literal("1.0"),
+  players: z.array(PlayerProfileSchema),
+});
+
+export type BetRecord = z.infer<typeof BetRecordSchema>;
+export type PlayerProfile = z.infer<typeof PlayerProfileSchema>;
+export type PlayerProfilesFile = z.infer<typeof PlayerProfilesFileSchema>;
+
+/**
+ * Validate a player profiles object
+ * @returns validation result with typed data or error
+ */
+export function validatePlayerProfiles(
+  data: unknown,
+):
+  | { success: true; data: PlayerProfilesFile }
+  | { success: false; error: string; issues?: string[] } {
+  try {
+    const result = PlayerProfilesFileSchema.parse(data);
+    return { success: true, data: result };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const issues = error.issues.map((issue) => {
+        const path = issue.path.length > 0 ? issue.path.join(".") : "root";
+        return `• ${path}: ${issue.message}`;
+      });
+      return {
+        success: false,
+        error: "Invalid player profiles file",
+        issues,
+      };
+    }
+    return { success: false, error: "Unknown validation error" };
+  }
+}
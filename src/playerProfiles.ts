@@ -0,0 +1,156 @@
+import type { Settlement } from "./pariMutuel";
+import {
+  type PlayerProfile,
+  type PlayerProfilesFile,
+  validatePlayerProfiles,
+} from "./playerProfileSchema";
+
+/**
+ * Local player profiles.
+ * Each player has a wallet that bets are paid from and into, kept in
+ * localStorage so a running competition survives a reload.
+ */
+
+export const STARTING_BALANCE = 1000;
+const MAX_HISTORY = 200; // Oldest bets are dropped beyond this
+const PLAYERS_STORAGE_KEY = "reindeer-racing-players";
+
+export class PlayerProfiles {
+  private profiles: PlayerProfile[];
+
+  constructor() {
+    this.profiles = this.load();
+  }
+
+  private load(): PlayerProfile[] {
+    const stored = localStorage.getItem(PLAYERS_STORAGE_KEY);
+    if (!stored) return [];
+
+    try {
+      const validation = validatePlayerProfiles(JSON.parse(stored));
+      if (validation.success) {
+        return validation.data.players;
+      }
+      console.warn("Ignoring saved player profiles:", validation.issues);
+    } catch {
+      console.warn("Ignoring unreadable saved player profiles");
+    }
+    return [];
+  }
+
+  private save(): void {
+    localStorage.setItem(PLAYERS_STORAGE_KEY, JSON.stringify(this.toFile()));
+  }
+
+  /**
+   * Players ranked by balance, richest first
+   */
+  public getRanked(): PlayerProfile[] {
+    return [...this.profiles].sort(
+      (a, b) => b.balance - a.balance || a.name.localeCompare(b.name),
+    );
+  }
+
+  public getProfiles(): PlayerProfile[] {
+    return this.profiles;
+  }
+
+  public getProfile(id: string): PlayerProfile | undefined {
+    return this.profiles.find((profile) => profile.id === id);
+  }
+
+  /**
+   * Add a player with the starting balance
+   * @returns The new profile, or null if the name is empty or already taken
+   */
+  public create(name: string, color: number): PlayerProfile | null {
+    const trimmed = name.trim();
+    const taken = this.profiles.some(
+      (profile) => profile.name.toLowerCase() === trimmed.toLowerCase(),
+    );
+    if (!trimmed || taken) return null;
+
+    const profile: PlayerProfile = {
+      id: `player-${Date.now().toString(16)}-${Math.floor(Math.random() * 0xffff).toString(16)}`,
+      name: trimmed,
+      color,
+      balance: STARTING_BALANCE,
+      lifetimeProfit: 0,
+      history: [],
+    };
+    this.profiles.push(profile);
+    this.save();
+    return profile;
+  }
+
+  /**
+   * Put a player back to the starting balance with no history
+   */
+  public reset(id: string): void {
+    const profile = this.getProfile(id);
+    if (!profile) return;
+
+    profile.balance = STARTING_BALANCE;
+    profile.lifetimeProfit = 0;
+    profile.history = [];
+    this.save();
+  }
+
+  public delete(id: string): void {
+    this.profiles = this.profiles.filter((profile) => profile.id !== id);
+    this.save();
+  }
+
+  /**
+   * Pay out a settled book: each bet's stake comes out of the player's
+   * wallet and its payout goes back in. Bets by unknown players are skipped.
+   * @param getHorseName - Name to record for each horse id
+   */
+  public applySettlement(
+    settlement: Settlement,
+    getHorseName: (horseId: string) => string,
+  ): void {
+    const date = Date.now();
+    settlement.bets.forEach(({ bet, outcome, payout }) => {
+      const profile = this.getProfile(bet.player);
+      if (!profile) return;
+
+      const net = payout - bet.stake;
+      profile.balance = roundMoney(profile.balance + net);
+      profile.lifetimeProfit = roundMoney(profile.lifetimeProfit + net);
+      profile.history.push({
+        date,
+        type: bet.type,
+        selection: bet.selection.map(getHorseName),
+        stake: bet.stake,
+        payout,
+        outcome,
+      });
+      if (profile.history.length > MAX_HISTORY) {
+        profile.history.splice(0, profile.history.length - MAX_HISTORY);
+      }
+    });
+    this.save();
+  }
+
+  public toFile(): PlayerProfilesFile {
+    return { version: "1.0", players: this.profiles };
+  }
+
+  /**
+   * Replace every profile with those from an exported file
+   * @returns validation result, profiles are only replaced on success
+   */
+  public importFile(data: unknown): ReturnType<typeof validatePlayerProfiles> {
+    const validation = validatePlayerProfiles(data);
+    if (validation.success) {
+      this.profiles = validation.data.players;
+      this.save();
+    }
+    return validation;
+  }
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
@@ -2,6 +2,15 @@ import * as THREE from "three";
 import { FONT } from "./constants";
 import type { Horse } from "./raceManager";
 
+/**
+ * A horse on the podium: horses sharing a position stand together on its block
+ */
+export interface PodiumPlacing {
+  horse: Horse;
+  position: number; // 1-3
+  caption: string; // e.g. the winning margin or "Dead heat for 1st"
+}
+
 interface Confetti {
   mesh: THREE.Mesh;
   velocity: THREE.Vector3;
@@ -206,8 +215,11 @@ export class PodiumScene {
     return sprite;
   }
 
-  public show(topThree: Horse[]): void {
-    if (topThree.length === 0) {
+  /**
+   * @param placings - Placed horses in finishing order
+   */
+  public show(placings: PodiumPlacing[]): void {
+    if (placings.length === 0) {
       console.warn("No horses to display on podium");
       return;
     }
@@ -225,27 +237,47 @@ export class PodiumScene {
 
     // Position horses on podiums
     // Order: 2nd (left), 1st (center), 3rd (right)
-    const positions = [
-      { index: 1, x: -5, y: 4.5 }, // 2nd place on left podium
-      { index: 0, x: 0, y: 6 }, // 1st place on center podium (tallest)
-      { index: 2, x: 5, y: 3 }, // 3rd place on right podium
+    const blocks = [
+      { position: 2, x: -5, y: 4.5 }, // 2nd place on left podium
+      { position: 1, x: 0, y: 6 }, // 1st place on center podium (tallest)
+      { position: 3, x: 5, y: 3 }, // 3rd place on right podium
     ];
 
-    positions.forEach((pos) => {
-      if (pos.index < topThree.length) {
-        const horse = topThree[pos.index];
+    blocks.forEach((block) => {
+      const placed = placings.filter((p) => p.position === block.position);
+      // Dead heaters stand side by side, their names stacked so they don't overlap
+      const spacing =
+        placed.length > 1 ? Math.min(1.4, 3 / (placed.length - 1)) : 0;
+
+      placed.forEach((placing, index) => {
+        const x = block.x + (index - (placed.length - 1) / 2) * spacing;
+
         // Clone the horse mesh for the podium
-        const horseMesh = horse.mesh.clone();
-        horseMesh.position.set(pos.x, pos.y, 0);
+        const horseMesh = placing.horse.mesh.clone();
+        horseMesh.position.set(x, block.y, 0);
         horseMesh.rotation.y = -Math.PI / 2; // Start rotated -90 degrees (270 degrees) to face forward
         horseMesh.userData.isPodiumHorse = true;
         this.scene.add(horseMesh);
 
         // Add name label above horse
-        const nameLabel = this.createNameLabel(horse.data.name);
-        nameLabel.position.set(pos.x, pos.y + 2.2, 0);
+        const nameLabel = this.createNameLabel(placing.horse.data.name);
+        nameLabel.position.set(block.x, block.y + 2.2 + index * 0.55, 0);
         nameLabel.userData.isPodiumNameLabel = true;
         this.scene.add(nameLabel);
+      });
+
+      // One caption per block, above the names
+      const caption = placed[0]?.caption;
+      if (caption) {
+        const captionLabel = this.createNameLabel(caption);
+        captionLabel.scale.multiplyScalar(0.8);
+        captionLabel.position.set(
+          block.x,
+          block.y + 2.2 + placed.length * 0.55,
+          0,
+        );
+        captionLabel.userData.isPodiumNameLabel = true;
+        this.scene.add(captionLabel);
       }
     });
 
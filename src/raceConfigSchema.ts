@@ -1,4 +1,6 @@
 import { z } from "zod";
+import { MAX_FIELD_SIZE } from "./constants";
+import { hashString } from "./utils/random";
 
 /**
  * Zod schema for validating race configuration files
@@ -26,7 +28,35 @@ const FaceTypeSchema = z.enum([
   "glasses",
 ]);
 
-const HorseDataSchema = z.object({
+export const GoingSchema = z.enum(["firm", "good", "soft", "heavy", "snow"]);
+
+export const WeatherSchema = z.enum(["clear", "rain", "snow", "fog", "wind"]);
+
+export const DraftingPresetSchema = z.enum([
+  "off",
+  "light",
+  "normal",
+  "strong",
+]);
+
+const AncestorSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  color: z.number().int().min(0).max(0xffffff),
+  get sire() {
+    return AncestorSchema.optional();
+  },
+  get dam() {
+    return AncestorSchema.optional();
+  },
+});
+
+const PedigreeSchema = z.object({
+  sire: AncestorSchema,
+  dam: AncestorSchema,
+});
+
+export const HorseDataSchema = z.object({
   id: z.string(),
   name: z.string(),
   stats: HorseStatsSchema,
@@ -34,15 +64,60 @@ const HorseDataSchema = z.object({
   color: z.number().int().min(0).max(0xffffff),
   hat: HatTypeSchema,
   face: FaceTypeSchema,
+  runningStyle: z.enum(["hold-up", "even", "go-early"]).optional(),
+  preferredGoing: GoingSchema.optional(),
+  pedigree: PedigreeSchema.optional(),
+});
+
+export const RaceDistanceSchema = z.object({
+  unit: z.enum(["laps", "distance"]),
+  value: z.number().positive(),
 });
 
 export const RaceConfigSchema = z.object({
   version: z.literal("1.0"),
   raceSeed: z.number().int(),
-  horses: z.array(HorseDataSchema).min(1).max(8),
+  horses: z.array(HorseDataSchema).min(1).max(MAX_FIELD_SIZE),
+  distance: RaceDistanceSchema.optional(), // Defaults to one lap
+  going: GoingSchema.optional(), // Defaults to good
+  weather: WeatherSchema.optional(), // Defaults to clear
+  drafting: DraftingPresetSchema.optional(), // Defaults to normal
+  deadHeatTolerance: z.number().min(0).max(1).optional(), // Seconds, defaults to 0.001
+});
+
+/**
+ * One race on a meeting card: a race configuration with a name and theme
+ */
+export const MeetingRaceSchema = RaceConfigSchema.omit({
+  version: true,
+}).extend({
+  name: z.string().min(1),
+  theme: z.enum(["normal", "christmas"]).optional(), // Defaults to the current theme
+});
+
+/**
+ * A race meeting: an ordered card of races run one after another
+ */
+export const RaceMeetingSchema = z.object({
+  version: z.literal("1.0"),
+  name: z.string(),
+  races: z.array(MeetingRaceSchema).min(1),
+});
+
+/**
+ * The meeting card kept in localStorage, which may still be empty, with the
+ * race being run
+ */
+export const SavedRaceMeetingSchema = RaceMeetingSchema.extend({
+  races: z.array(MeetingRaceSchema),
+  currentIndex: z.number().int().min(0).nullable(), // null when not running
 });
 
 export type RaceConfig = z.infer<typeof RaceConfigSchema>;
+export type RaceDistance = z.infer<typeof RaceDistanceSchema>;
+export type MeetingRace = z.infer<typeof MeetingRaceSchema>;
+export type RaceMeetingFile = z.infer<typeof RaceMeetingSchema>;
+export type SavedRaceMeeting = z.infer<typeof SavedRaceMeetingSchema>;
 
 /**
  * Validate a race configuration object
@@ -50,11 +125,52 @@ export type RaceConfig = z.infer<typeof RaceConfigSchema>;
  */
 export function validateRaceConfig(
   data: unknown,
-):
-  | { success: true; data: RaceConfig }
-  | { success: false; error: string; issues?: string[] } {
+): ValidationResult<RaceConfig> {
+  return validate(RaceConfigSchema, data, "Invalid race configuration file");
+}
+
+/**
+ * Validate a race meeting card
+ * @returns validation result with typed data or error
+ */
+export function validateRaceMeeting(
+  data: unknown,
+): ValidationResult<RaceMeetingFile> {
+  return validate(RaceMeetingSchema, data, "Invalid race meeting file");
+}
+
+/**
+ * Fingerprint of a race file: a hash of its JSON with the keys sorted and no
+ * whitespace, so it can be recomputed from an exported race file and is the
+ * same however the file's keys were ordered.
+ * The race seed is part of the file and races are deterministic, so the hash
+ * also identifies the result. Careers, the championship and the betting book
+ * key races on it so that running the same race again counts for nothing.
+ */
+export function hashRaceConfig(config: RaceConfig): string {
+  const canonical = JSON.stringify(config, (_key, value) =>
+    value && typeof value === "object" && !Array.isArray(value)
+      ? Object.fromEntries(
+          Object.entries(value).sort(([a], [b]) =>
+            a < b ? -1 : a > b ? 1 : 0,
+          ),
+        )
+      : value,
+  );
+  return hashString(canonical);
+}
+
+type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string; issues?: string[] };
+
+function validate<T>(
+  schema: z.ZodType<T>,
+  data: unknown,
+  invalidMessage: string,
+): ValidationResult<T> {
   try {
-    const result = RaceConfigSchema.parse(data);
+    const result = schema.parse(data);
     return { success: true, data: result };
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -64,7 +180,7 @@ export function validateRaceConfig(
       });
       return {
         success: false,
-        error: "Invalid race configuration file",
+        error: invalidMessage,
         issues,
       };
     }
@@ -1,9 +1,26 @@
 import * as THREE from "three";
 import { FONT } from "./constants";
 import { createFace, createHat } from "./horseAccessories";
-import type { HorseData, SpeedPoint } from "./horseStats";
-import { calculateSpeedCurve } from "./horseStats";
+import type { HorseData } from "./horseStats";
 import { CountdownOverlay } from "./overlays/countdownOverlay";
+import { RaceRecorder, ReplayPlayer } from "./raceReplay";
+import {
+  calculateTrackLength,
+  compareRunningOrder,
+  type DraftingStatus,
+  getFinishingPositions,
+  getLapNumber,
+  getLengthsBehind,
+  type LeaderboardStanding,
+  type RaceCourse,
+  type RaceResult,
+  RaceSimulation,
+  SIMULATION_TIMESTEP,
+  type SimulatedHorse,
+  type SimulationConfig,
+  type SplitPoint,
+  type TrackDimensions,
+} from "./raceSimulation";
 import type { RaceTrack } from "./raceTrack";
 
 export const RaceState = {
@@ -17,41 +34,45 @@ export type RaceState = (typeof RaceState)[keyof typeof RaceState];
 
 export interface Horse {
   mesh: THREE.Mesh;
-  progress: number; // Distance traveled along track
-  currentSpeed: number; // Current speed (from speed curve)
-  speedCurve: SpeedPoint[]; // Pre-calculated speed curve
-  hasFinished: boolean;
-  finishTime: number | null; // Time when horse finished (null if not finished)
-  finishSpeed: number; // Speed when crossing finish line (for smooth deceleration)
-  laneOffset: number; // Offset from inner edge of track
   data: HorseData; // Reference to horse data
-  speedVariance: number; // Current speed variance multiplier (0.85-1.15)
-  varianceTimer: number; // Time until next variance change
-  finalKick: number; // Random final stretch boost (0.8-1.2)
+  state: SimulatedHorse; // Live simulation state (progress, speed, finish)
 }
 
 export class RaceManager {
   private state: RaceState = RaceState.IDLE;
   private horses: Horse[] = [];
+  private simulation: RaceSimulation;
   private countdownOverlay: CountdownOverlay;
   private raceTrack: RaceTrack;
-  private trackLength: number;
-  private raceSeed: number = 0; // For seeded randomness
-  private raceTime: number = 0; // Current race time in seconds
-  private readonly DECELERATION_DISTANCE = 30; // Distance to decelerate after finish line
+  private lapLength: number;
   private photoFinishCaptured: boolean = false; // Track if photo has been captured this race
   private onPhotoFinishTrigger?: () => void; // Callback for photo capture
+  private onRaceFinish?: () => void; // Callback once every horse has finished
+  private readonly RECORD_INTERVAL_STEPS = 2; // Record a replay frame every other simulation step
+  private recorder: RaceRecorder;
+  private isRecording: boolean = false;
+  private stepsSinceRecord: number = 0;
+  private replayPlayer: ReplayPlayer | null = null;
 
   constructor(raceTrack: RaceTrack) {
     this.raceTrack = raceTrack;
     this.countdownOverlay = new CountdownOverlay();
+    this.recorder = new RaceRecorder(
+      SIMULATION_TIMESTEP * this.RECORD_INTERVAL_STEPS,
+    );
 
     // Calculate track length for one lap
-    const config = raceTrack.getConfig();
-    this.trackLength = config.length * 2 + Math.PI * config.radius * 2;
+    this.lapLength = calculateTrackLength(raceTrack.getConfig());
+    this.simulation = new RaceSimulation(
+      { raceSeed: 0, horses: [] },
+      raceTrack.getConfig(),
+    );
   }
 
-  public setHorses(horseDataList: HorseData[], raceSeed?: number): void {
+  /**
+   * Set up a new race: field, seed and distance
+   */
+  public setRace(config: SimulationConfig): void {
     // Clear existing horses from scene
     this.horses.forEach((horse) => {
       if (horse.mesh.parent) {
@@ -66,18 +87,16 @@ export class RaceManager {
     });
 
     this.horses = [];
-    if (raceSeed !== undefined) {
-      this.raceSeed = raceSeed;
-    }
+    this.replayPlayer = null;
+    this.recorder.clear();
 
-    // Create new horses
-    const trackWidth = this.raceTrack.getConfig().width;
-    const numHorses = horseDataList.length;
-    const laneSpacing = trackWidth / (numHorses + 1);
+    // Build the headless simulation, then create a mesh for each simulated horse
+    this.simulation = new RaceSimulation(config, this.raceTrack.getConfig());
+    this.raceTrack.setCourse(this.simulation.getCourse());
+    this.raceTrack.setStartingGate(config.horses.length);
 
-    horseDataList.forEach((horseData, index) => {
-      const laneOffset = laneSpacing * (index + 1);
-      const speedCurve = calculateSpeedCurve(horseData, this.trackLength);
+    this.simulation.getHorses().forEach((simulatedHorse) => {
+      const horseData = simulatedHorse.data;
 
       // Create cube for horse
       const geometry = new THREE.BoxGeometry(1, 1, 1);
@@ -103,23 +122,10 @@ export class RaceManager {
       const nameLabel = this.createNameLabel(horseData.name);
       mesh.userData.nameLabel = nameLabel;
 
-      // Generate final kick using race seed
-      const finalKick =
-        this.seededRandom(this.raceSeed + index * 7) * 0.4 + 0.8; // 0.8-1.2
-
       this.horses.push({
         mesh,
-        progress: 0,
-        currentSpeed: speedCurve[0].speed,
-        speedCurve,
-        hasFinished: false,
-        finishTime: null,
-        finishSpeed: 0,
-        laneOffset,
         data: horseData,
-        speedVariance: 1.0,
-        varianceTimer: 0,
-        finalKick,
+        state: simulatedHorse,
       });
 
       // Add to scene
@@ -134,11 +140,6 @@ export class RaceManager {
     this.resetHorses();
   }
 
-  private seededRandom(seed: number): number {
-    const x = Math.sin(seed) * 10000;
-    return x - Math.floor(x);
-  }
-
   private createNameLabel(name: string): THREE.Sprite {
     // Create canvas for text
     const canvas = document.createElement("canvas");
@@ -186,59 +187,84 @@ export class RaceManager {
 
     // Reset all horses and race time
     this.resetHorses();
-    this.raceTime = 0;
 
-    // Start countdown
+    // Start countdown, the stalls open and the field breaks on "GO"
     this.state = RaceState.COUNTDOWN;
-    await this.countdownOverlay.showCountdown(["3", "2", "1", "GO"]);
+    await this.countdownOverlay.showCountdown(["3", "2", "1", "GO"], (text) => {
+      if (text === "GO" && this.state === RaceState.COUNTDOWN) {
+        this.breakFromGate();
+      }
+    });
+  }
 
-    // Start racing
+  /**
+   * Open the starting gate and start racing and recording from the starting line
+   */
+  private breakFromGate(): void {
+    this.raceTrack.openStartingGate();
     this.state = RaceState.RACING;
+    this.recorder.clear();
+    this.recorder.capture(this.simulation.getHorses());
+    this.isRecording = true;
+    this.stepsSinceRecord = 0;
   }
 
   private resetHorses(): void {
+    this.simulation.reset();
     this.horses.forEach((horse) => {
-      horse.progress = 0;
-      horse.hasFinished = false;
-      horse.finishTime = null;
-      horse.finishSpeed = 0;
-      horse.currentSpeed = horse.speedCurve[0].speed;
-      horse.speedVariance = 1.0;
-      horse.varianceTimer = 0;
-
-      // Position at starting line
-      const position = this.raceTrack.getTrackPosition(0, horse.laneOffset);
-      horse.mesh.position.x = position.x;
-      horse.mesh.position.y = position.y + 0.5;
-      horse.mesh.position.z = position.z;
-
-      // Update name label position (above horse)
-      if (horse.mesh.userData.nameLabel) {
-        const nameLabel = horse.mesh.userData.nameLabel as THREE.Sprite;
-        nameLabel.position.x = position.x;
-        nameLabel.position.y = position.y + 2.2; // Position above horse and hat
-        nameLabel.position.z = position.z;
-      }
+      this.positionHorse(horse, horse.state.progress, horse.state.laneOffset);
     });
   }
 
+  /**
+   * Record a replay frame every few simulation steps,
+   * stopping once every horse has finished and pulled up
+   */
+  private recordStep(): void {
+    if (!this.isRecording) return;
+
+    this.stepsSinceRecord++;
+    if (this.stepsSinceRecord < this.RECORD_INTERVAL_STEPS) return;
+    this.stepsSinceRecord = 0;
+
+    const horses = this.simulation.getHorses();
+    this.recorder.capture(horses);
+
+    if (
+      horses.every((horse) => horse.hasFinished && horse.currentSpeed === 0)
+    ) {
+      this.isRecording = false;
+    }
+  }
+
   public update(deltaTime: number): void {
-    if (this.state !== RaceState.RACING && this.state !== RaceState.FINISHED) {
+    // Replays drive the meshes from the recording instead of the simulation
+    if (this.replayPlayer) {
+      this.replayPlayer.update(deltaTime);
+      const states = this.replayPlayer.getHorseStates();
+      this.horses.forEach((horse, index) => {
+        const state = states[index];
+        if (state) {
+          this.positionHorse(horse, state.progress, state.laneOffset);
+        }
+      });
       return;
     }
 
-    // Update race time (only during racing, not after finished)
-    if (this.state === RaceState.RACING) {
-      this.raceTime += deltaTime;
+    if (this.state !== RaceState.RACING && this.state !== RaceState.FINISHED) {
+      return;
     }
 
-    let allFinished = true;
+    this.raceTrack.updateStartingGate(deltaTime);
+
+    // Run the simulation in fixed steps so results don't depend on frame rate
+    this.simulation.advance(deltaTime, () => this.recordStep());
 
     // Check for photo finish trigger (when leader crosses the finish line)
     if (!this.photoFinishCaptured && this.state === RaceState.RACING) {
       const leadProgress = this.getLeadHorseProgress();
 
-      if (leadProgress >= this.trackLength) {
+      if (leadProgress >= this.simulation.getCourse().raceDistance) {
         this.photoFinishCaptured = true;
         if (this.onPhotoFinishTrigger) {
           this.onPhotoFinishTrigger();
@@ -246,141 +272,59 @@ export class RaceManager {
       }
     }
 
-    // Update each horse
-    this.horses.forEach((horse, horseIndex) => {
-      if (!horse.hasFinished) {
-        // Get base speed from speed curve
-        const baseSpeed = this.getSpeedAtDistance(
-          horse.speedCurve,
-          horse.progress,
-        );
-
-        // Update variance timer
-        horse.varianceTimer -= deltaTime;
-        if (horse.varianceTimer <= 0) {
-          // Time to change variance - happens every 1-3 seconds
-          horse.varianceTimer =
-            1 +
-            this.seededRandom(this.raceSeed + horseIndex + horse.progress) * 2;
-
-          // Calculate new variance based on stamina (high stamina = more consistent)
-          const staminaConsistency = horse.data.stats.stamina;
-          const varianceRange = 0.15 * (1 - staminaConsistency * 0.5); // 0.075-0.15 range
-          const randomFactor = this.seededRandom(
-            this.raceSeed + horseIndex + horse.progress + 1000,
-          );
-          horse.speedVariance = 1.0 + (randomFactor - 0.5) * 2 * varianceRange;
-        }
-
-        // Apply variance
-        let finalSpeed = baseSpeed * horse.speedVariance;
-
-        // Check if in final stretch (last 15% of track)
-        const progressRatio = horse.progress / this.trackLength;
-        if (progressRatio > 0.85) {
-          // Apply final kick modifier
-          const finalStretchBoost =
-            1.0 + (horse.finalKick - 1.0) * ((progressRatio - 0.85) / 0.15);
-          finalSpeed *= finalStretchBoost;
-        }
-
-        horse.currentSpeed = finalSpeed;
-      }
-
-      // Check if horse has already finished and is decelerating
-      if (horse.hasFinished) {
-        const distancePastFinish = horse.progress - this.trackLength;
-        if (distancePastFinish < this.DECELERATION_DISTANCE) {
-          // Use ease-out curve for smooth deceleration (quadratic ease-out for gentler slowdown)
-          const t = distancePastFinish / this.DECELERATION_DISTANCE;
-          const easeOut = 1 - (1 - t) ** 2; // Quadratic ease-out (gentler than cubic)
-
-          // Interpolate from finish speed to 0
-          horse.currentSpeed = horse.finishSpeed * (1 - easeOut);
-        } else {
-          // Stop completely after deceleration distance
-          horse.currentSpeed = 0;
-        }
-      }
-
-      // Move horse forward once per frame
-      horse.progress += horse.currentSpeed * deltaTime;
-
-      // Check if just crossed finish line this frame
-      if (horse.progress >= this.trackLength && !horse.hasFinished) {
-        horse.hasFinished = true;
-        horse.finishTime = this.raceTime;
-        horse.finishSpeed = horse.currentSpeed; // Store speed at finish for smooth deceleration
-      }
-
-      // Track if all horses have finished
-      if (!horse.hasFinished) {
-        allFinished = false;
-      }
-
-      // Update horse position based on progress and lane
-      const position = this.raceTrack.getTrackPosition(
-        horse.progress,
-        horse.laneOffset,
-      );
-      horse.mesh.position.x = position.x;
-      horse.mesh.position.y = position.y + 0.5; // Keep horse above ground
-      horse.mesh.position.z = position.z;
-
-      // Calculate forward direction for rotation
-      // Sample a point slightly ahead to determine facing direction
-      const lookAheadDistance = 0.1; // Small distance ahead
-      const futurePosition = this.raceTrack.getTrackPosition(
-        horse.progress + lookAheadDistance,
-        horse.laneOffset,
+    // Move meshes to match the simulation,
+    // interpolating between the last two steps for smooth movement
+    const alpha = this.simulation.getInterpolationAlpha();
+    this.horses.forEach((horse) => {
+      const { previousProgress, progress, laneOffset } = horse.state;
+      this.positionHorse(
+        horse,
+        previousProgress + (progress - previousProgress) * alpha,
+        laneOffset,
       );
-      const direction = new THREE.Vector3()
-        .subVectors(futurePosition, position)
-        .normalize();
-
-      // Calculate rotation to face the direction of travel
-      // atan2 gives us the angle in the XZ plane
-      const targetRotation = Math.atan2(direction.x, direction.z);
-      horse.mesh.rotation.y = targetRotation;
-
-      // Update name label position (above horse)
-      if (horse.mesh.userData.nameLabel) {
-        const nameLabel = horse.mesh.userData.nameLabel as THREE.Sprite;
-        nameLabel.position.x = position.x;
-        nameLabel.position.y = position.y + 2.2; // Position above horse and hat
-        nameLabel.position.z = position.z;
-      }
     });
 
     // Check if race should transition to finished (all crossed line)
-    if (allFinished && this.state === RaceState.RACING) {
+    if (this.simulation.isFinished() && this.state === RaceState.RACING) {
       this.state = RaceState.FINISHED;
+      this.onRaceFinish?.();
     }
   }
 
-  private getSpeedAtDistance(
-    speedCurve: SpeedPoint[],
-    distance: number,
-  ): number {
-    // Find the two points that bracket the current distance
-    for (let i = 0; i < speedCurve.length - 1; i++) {
-      if (
-        distance >= speedCurve[i].distance &&
-        distance <= speedCurve[i + 1].distance
-      ) {
-        // Linear interpolation between the two points
-        const t =
-          (distance - speedCurve[i].distance) /
-          (speedCurve[i + 1].distance - speedCurve[i].distance);
-        return (
-          speedCurve[i].speed +
-          (speedCurve[i + 1].speed - speedCurve[i].speed) * t
-        );
-      }
+  private positionHorse(
+    horse: Horse,
+    progress: number,
+    laneOffset: number,
+  ): void {
+    // Update horse position based on progress and lane
+    const position = this.getTrackPosition(progress, laneOffset);
+    horse.mesh.position.x = position.x;
+    horse.mesh.position.y = position.y + 0.5; // Keep horse above ground
+    horse.mesh.position.z = position.z;
+
+    // Calculate forward direction for rotation
+    // Sample a point slightly ahead to determine facing direction
+    const lookAheadDistance = 0.1; // Small distance ahead
+    const futurePosition = this.getTrackPosition(
+      progress + lookAheadDistance,
+      laneOffset,
+    );
+    const direction = new THREE.Vector3()
+      .subVectors(futurePosition, position)
+      .normalize();
+
+    // Calculate rotation to face the direction of travel
+    // atan2 gives us the angle in the XZ plane
+    const targetRotation = Math.atan2(direction.x, direction.z);
+    horse.mesh.rotation.y = targetRotation;
+
+    // Update name label position (above horse)
+    if (horse.mesh.userData.nameLabel) {
+      const nameLabel = horse.mesh.userData.nameLabel as THREE.Sprite;
+      nameLabel.position.x = position.x;
+      nameLabel.position.y = position.y + 2.2; // Position above horse and hat
+      nameLabel.position.z = position.z;
     }
-
-    // If beyond the curve, return the last speed
-    return speedCurve[speedCurve.length - 1].speed;
   }
 
   public getState(): RaceState {
@@ -393,10 +337,44 @@ export class RaceManager {
     );
   }
 
+  /**
+   * Start playing back the last recorded race
+   * @returns false if there is no finished race to replay
+   */
+  public startReplay(): boolean {
+    if (this.state !== RaceState.FINISHED || !this.recorder.hasFrames()) {
+      return false;
+    }
+
+    this.replayPlayer = new ReplayPlayer(this.recorder.finish());
+    return true;
+  }
+
+  /**
+   * Leave replay mode and put horses back where the race left them
+   */
+  public stopReplay(): void {
+    this.replayPlayer = null;
+    this.horses.forEach((horse) => {
+      this.positionHorse(horse, horse.state.progress, horse.state.laneOffset);
+    });
+  }
+
+  public isReplaying(): boolean {
+    return this.replayPlayer !== null;
+  }
+
+  public getReplayPlayer(): ReplayPlayer | null {
+    return this.replayPlayer;
+  }
+
   public resetRace(): void {
     this.state = RaceState.IDLE;
-    this.raceTime = 0;
+    this.replayPlayer = null;
+    this.isRecording = false;
+    this.recorder.clear();
     this.photoFinishCaptured = false; // Reset photo capture flag
+    this.raceTrack.closeStartingGate();
     this.resetHorses();
   }
 
@@ -410,61 +388,129 @@ export class RaceManager {
   }
 
   public getLeadHorseProgress(): number {
-    if (this.horses.length === 0) return 0;
-
-    // Find the horse with the most progress
-    let maxProgress = 0;
-    this.horses.forEach((horse) => {
-      if (horse.progress > maxProgress) {
-        maxProgress = horse.progress;
-      }
-    });
-
-    return maxProgress;
+    if (this.replayPlayer) {
+      return Math.max(0, ...this.getHorseProgressList());
+    }
+    return this.simulation.getLeadHorseProgress();
   }
 
   public getHorseProgressList(): number[] {
-    return this.horses.map((horse) => horse.progress);
+    if (this.replayPlayer) {
+      return this.replayPlayer.getHorseStates().map((state) => state.progress);
+    }
+    return this.horses.map((horse) => horse.state.progress);
   }
 
   public getRaceTime(): number {
-    return this.raceTime;
-  }
-
-  public getLeaderboard(): {
-    position: number;
-    name: string;
-    progress: number;
-  }[] {
-    // Sort horses: finished horses by finish time (ascending), then unfinished by progress (descending)
-    const sorted = [...this.horses]
-      .map((horse) => ({
-        name: horse.data.name,
-        progress: horse.progress,
-        hasFinished: horse.hasFinished,
-        finishTime: horse.finishTime,
-      }))
-      .sort((a, b) => {
-        // Finished horses come first, sorted by finish time
-        if (a.hasFinished && b.hasFinished) {
-          return (a.finishTime ?? 0) - (b.finishTime ?? 0);
-        }
-        if (a.hasFinished) return -1;
-        if (b.hasFinished) return 1;
-        // Unfinished horses sorted by progress
-        return b.progress - a.progress;
-      });
+    if (this.replayPlayer) {
+      // Race clock stops when the last horse crosses the line
+      return Math.min(
+        this.replayPlayer.getTime(),
+        this.simulation.getRaceTime(),
+      );
+    }
+    return this.simulation.getRaceTime();
+  }
+
+  /**
+   * Horses currently drafting (live race only, not recorded for replays)
+   */
+  public getDrafting(): DraftingStatus[] {
+    return this.replayPlayer ? [] : this.simulation.getDrafting();
+  }
+
+  /**
+   * Track dimensions of the current race
+   */
+  public getTrackDimensions(): TrackDimensions {
+    return this.simulation.getDimensions();
+  }
+
+  /**
+   * Result of the live race (finish times for the horses that are home)
+   */
+  public getResult(): RaceResult {
+    return this.simulation.getResult();
+  }
+
+  public getLeaderboard(): LeaderboardStanding[] {
+    if (this.replayPlayer) {
+      const states = this.replayPlayer.getHorseStates();
+      const time = this.replayPlayer.getTime();
+      const runningOrder = this.horses
+        .map((horse, index) => ({
+          horseId: horse.data.id,
+          name: horse.data.name,
+          stall: horse.state.stall,
+          finishSpeed: horse.state.finishSpeed,
+          // Only the splits passed by this point of the replay
+          splits: horse.state.splits.map((split) =>
+            split !== null && split <= time ? split : null,
+          ),
+          ...states[index],
+        }))
+        .sort(compareRunningOrder);
+      const positions = getFinishingPositions(
+        runningOrder,
+        this.simulation.getDeadHeatTolerance(),
+      );
+      const lengthsBehind = getLengthsBehind(
+        runningOrder,
+        this.simulation.getCourse().raceDistance,
+        positions,
+      );
+
+      return runningOrder.map((entry, index) => ({
+        position: positions[index],
+        horseId: entry.horseId,
+        name: entry.name,
+        stall: entry.stall,
+        progress: entry.progress,
+        finishTime: entry.finishTime,
+        splits: entry.splits,
+        lengthsBehind: lengthsBehind[index],
+      }));
+    }
+    return this.simulation.getLeaderboard();
+  }
+
+  /**
+   * World position for a race progress on the current course
+   * @param progress - Distance traveled since the start gate
+   * @param laneOffset - Offset from inner edge, defaults to the middle of the track
+   */
+  public getTrackPosition(
+    progress: number,
+    laneOffset: number = this.raceTrack.getConfig().width / 2,
+  ): THREE.Vector3 {
+    return this.raceTrack.getCoursePosition(
+      progress,
+      laneOffset,
+      this.simulation.getCourse(),
+    );
+  }
+
+  public getCourse(): RaceCourse {
+    return this.simulation.getCourse();
+  }
+
+  public getSplitPoints(): SplitPoint[] {
+    return this.simulation.getSplitPoints();
+  }
+
+  /**
+   * Current lap of the race leader (1-based)
+   */
+  public getLeaderLap(): number {
+    return getLapNumber(this.getCourse(), this.getLeadHorseProgress());
+  }
 
-    // Add positions
-    return sorted.map((entry, index) => ({
-      position: index + 1,
-      name: entry.name,
-      progress: entry.progress,
-    }));
+  public getLapLength(): number {
+    return this.lapLength;
   }
 
-  public getTrackLength(): number {
-    return this.trackLength;
+  public setRaceFinishCallback(callback: () => void): void {
+    this.onRaceFinish = callback;
   }
 
   public setPhotoFinishCallback(callback: () => void): void {
@@ -0,0 +1,165 @@
+import {
+  type MeetingRace,
+  type RaceMeetingFile,
+  type SavedRaceMeeting,
+  SavedRaceMeetingSchema,
+  validateRaceMeeting,
+} from "./raceConfigSchema";
+
+/**
+ * Race meeting: an ordered card of races, each with its own field, seed,
+ * distance and theme, run one after another.
+ * Kept in localStorage so a card can be prepared well before the event.
+ */
+
+const MEETING_STORAGE_KEY = "reindeer-racing-meeting";
+
+export class RaceMeeting {
+  private data: SavedRaceMeeting;
+
+  constructor() {
+    this.data = this.load();
+  }
+
+  private load(): SavedRaceMeeting {
+    const empty: SavedRaceMeeting = {
+      version: "1.0",
+      name: "Race Meeting",
+      races: [],
+      currentIndex: null,
+    };
+
+    const stored = localStorage.getItem(MEETING_STORAGE_KEY);
+    if (!stored) return empty;
+
+    try {
+      const result = SavedRaceMeetingSchema.safeParse(JSON.parse(stored));
+      if (result.success) return result.data;
+      console.warn("Ignoring saved race meeting:", result.error.issues);
+    } catch {
+      console.warn("Ignoring unreadable saved race meeting");
+    }
+    return empty;
+  }
+
+  private save(): void {
+    localStorage.setItem(MEETING_STORAGE_KEY, JSON.stringify(this.data));
+  }
+
+  public getName(): string {
+    return this.data.name;
+  }
+
+  public setName(name: string): void {
+    this.data.name = name;
+    this.save();
+  }
+
+  public getRaces(): MeetingRace[] {
+    return this.data.races;
+  }
+
+  /**
+   * Add a race to the end of the card
+   */
+  public addRace(race: MeetingRace): void {
+    this.data.races.push(structuredClone(race));
+    this.save();
+  }
+
+  /**
+   * Take a race off the card (not while the meeting is running)
+   */
+  public removeRace(index: number): void {
+    if (this.isRunning()) return;
+
+    this.data.races.splice(index, 1);
+    this.save();
+  }
+
+  /**
+   * Move a race earlier (-1) or later (+1) on the card (not while the meeting is running)
+   */
+  public moveRace(index: number, offset: number): void {
+    const target = index + offset;
+    if (
+      this.isRunning() ||
+      target < 0 ||
+      target >= this.data.races.length ||
+      index < 0 ||
+      index >= this.data.races.length
+    ) {
+      return;
+    }
+
+    const [race] = this.data.races.splice(index, 1);
+    this.data.races.splice(target, 0, race);
+    this.save();
+  }
+
+  public isRunning(): boolean {
+    return this.data.currentIndex !== null;
+  }
+
+  /**
+   * Position on the card of the race being run, null when not running
+   */
+  public getCurrentIndex(): number | null {
+    return this.data.currentIndex;
+  }
+
+  public getCurrentRace(): MeetingRace | null {
+    const index = this.data.currentIndex;
+    return index !== null ? (this.data.races[index] ?? null) : null;
+  }
+
+  /**
+   * Start from the first race on the card
+   * @returns the first race, or null if the card is empty
+   */
+  public start(): MeetingRace | null {
+    if (this.data.races.length === 0) return null;
+
+    this.data.currentIndex = 0;
+    this.save();
+    return this.data.races[0];
+  }
+
+  /**
+   * Move on to the next race
+   * @returns the next race, or null once the last race has been run (which ends the meeting)
+   */
+  public advance(): MeetingRace | null {
+    if (this.data.currentIndex === null) return null;
+
+    const next = this.data.currentIndex + 1;
+    this.data.currentIndex = next < this.data.races.length ? next : null;
+    this.save();
+    return this.getCurrentRace();
+  }
+
+  public end(): void {
+    this.data.currentIndex = null;
+    this.save();
+  }
+
+  public toFile(): RaceMeetingFile {
+    return {
+      version: "1.0",
+      name: this.data.name,
+      races: this.data.races,
+    };
+  }
+
+  /**
+   * Replace the card with an imported one, if it's valid
+   */
+  public importFile(data: unknown): ReturnType<typeof validateRaceMeeting> {
+    const validation = validateRaceMeeting(data);
+    if (validation.success) {
+      this.data = { ...validation.data, currentIndex: null };
+      this.save();
+    }
+    return validation;
+  }
+}
@@ -0,0 +1,198 @@
+import type { SimulatedHorse } from "./raceSimulation";
+
+/**
+ * Race replay recording and playback.
+ * The recorder samples the simulation into flat typed arrays (one entry per
+ * horse per frame) and the player reads them back at any time, speed or
+ * direction without re-running the simulation.
+ */
+
+export interface ReplayHorseState {
+  progress: number;
+  currentSpeed: number;
+  laneOffset: number;
+  hasFinished: boolean;
+  finishTime: number | null;
+}
+
+export interface RaceRecording {
+  horseCount: number;
+  frameInterval: number; // Seconds between recorded frames
+  frameCount: number;
+  duration: number; // Seconds covered by the recording
+  progress: Float32Array; // frameCount * horseCount
+  speed: Float32Array; // frameCount * horseCount
+  laneOffset: Float32Array; // frameCount * horseCount
+  finishTimes: (number | null)[]; // Official finish time of each horse
+}
+
+export class RaceRecorder {
+  private horseCount: number = 0;
+  private frameInterval: number;
+  private frameCount: number = 0;
+  private progress: number[] = [];
+  private speed: number[] = [];
+  private laneOffset: number[] = [];
+  private finishTimes: (number | null)[] = [];
+
+  constructor(frameInterval: number) {
+    this.frameInterval = frameInterval;
+  }
+
+  /**
+   * Forget the current recording
+   */
+  public clear(): void {
+    this.horseCount = 0;
+    this.frameCount = 0;
+    this.progress = [];
+    this.speed = [];
+    this.laneOffset = [];
+    this.finishTimes = [];
+  }
+
+  /**
+   * Append one frame with the state of every horse
+   */
+  public capture(horses: SimulatedHorse[]): void {
+    this.horseCount = horses.length;
+    horses.forEach((horse) => {
+      this.progress.push(horse.progress);
+      this.speed.push(horse.currentSpeed);
+      this.laneOffset.push(horse.laneOffset);
+    });
+    this.finishTimes = horses.map((horse) => horse.finishTime);
+    this.frameCount++;
+  }
+
+  public hasFrames(): boolean {
+    return this.frameCount > 0;
+  }
+
+  /**
+   * Freeze the captured frames into a compact recording
+   */
+  public finish(): RaceRecording {
+    return {
+      horseCount: this.horseCount,
+      frameInterval: this.frameInterval,
+      frameCount: this.frameCount,
+      duration: Math.max(0, (this.frameCount - 1) * this.frameInterval),
+      progress: Float32Array.from(this.progress),
+      speed: Float32Array.from(this.speed),
+      laneOffset: Float32Array.from(this.laneOffset),
+      finishTimes: [...this.finishTimes],
+    };
+  }
+}
+
+/**
+ * Read the state of every horse at a point in time, interpolating between frames
+ */
+export function sampleRecording(
+  recording: RaceRecording,
+  time: number,
+): ReplayHorseState[] {
+  const { horseCount, frameCount, frameInterval } = recording;
+  if (frameCount === 0) return [];
+
+  const framePosition = Math.max(
+    0,
+    Math.min(time / frameInterval, frameCount - 1),
+  );
+  const frameA = Math.floor(framePosition);
+  const frameB = Math.min(frameA + 1, frameCount - 1);
+  const t = framePosition - frameA;
+
+  const states: ReplayHorseState[] = [];
+  for (let i = 0; i < horseCount; i++) {
+    const a = frameA * horseCount + i;
+    const b = frameB * horseCount + i;
+    const finishTime = recording.finishTimes[i];
+    const hasFinished = finishTime !== null && time >= finishTime;
+
+    states.push({
+      progress:
+        recording.progress[a] +
+        (recording.progress[b] - recording.progress[a]) * t,
+      currentSpeed:
+        recording.speed[a] + (recording.speed[b] - recording.speed[a]) * t,
+      laneOffset:
+        recording.laneOffset[a] +
+        (recording.laneOffset[b] - recording.laneOffset[a]) * t,
+      hasFinished,
+      finishTime: hasFinished ? finishTime : null,
+    });
+  }
+
+  return states;
+}
+
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2] as const;
+
+export class ReplayPlayer {
+  private recording: RaceRecording;
+  private time: number = 0;
+  private playing: boolean = true;
+  private speedIndex: number = REPLAY_SPEEDS.indexOf(1);
+
+  constructor(recording: RaceRecording) {
+    this.recording = recording;
+  }
+
+  public update(deltaTime: number): void {
+    if (!this.playing) return;
+
+    this.time += deltaTime * this.getSpeed();
+
+    // Pause on the last frame rather than looping
+    if (this.time >= this.recording.duration) {
+      this.time = this.recording.duration;
+      this.playing = false;
+    }
+  }
+
+  public togglePlay(): void {
+    // Restart from the beginning if playback already reached the end
+    if (!this.playing && this.time >= this.recording.duration) {
+      this.time = 0;
+    }
+    this.playing = !this.playing;
+  }
+
+  public seek(time: number): void {
+    this.time = Math.max(0, Math.min(time, this.recording.duration));
+  }
+
+  public scrub(offset: number): void {
+    this.seek(this.time + offset);
+  }
+
+  public slower(): void {
+    this.speedIndex = Math.max(0, this.speedIndex - 1);
+  }
+
+  public faster(): void {
+    this.speedIndex = Math.min(REPLAY_SPEEDS.length - 1, this.speedIndex + 1);
+  }
+
+  public getSpeed(): number {
+    return REPLAY_SPEEDS[this.speedIndex];
+  }
+
+  public isPlaying(): boolean {
+    return this.playing;
+  }
+
+  public getTime(): number {
+    return this.time;
+  }
+
+  public getDuration(): number {
+    return this.recording.duration;
+  }
+
+  public getHorseStates(): ReplayHorseState[] {
+    return sampleRecording(this.recording, this.time);
+  }
+}
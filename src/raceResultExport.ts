@@ -0,0 +1,123 @@
+import { DEFAULT_DRAFTING_PRESET } from "./drafting";
+import { hashRaceConfig, type RaceConfig } from "./raceConfigSchema";
+import type { RaceResultFile } from "./raceResultSchema";
+import {
+  calculateTrackLength,
+  createRaceCourse,
+  type RaceResult,
+  type TrackDimensions,
+} from "./raceSimulation";
+import { toCSV } from "./utils/csv";
+
+/**
+ * Race results as files: JSON (see RaceResultFileSchema) for keeping and
+ * re-checking, CSV for pasting into a spreadsheet
+ */
+
+export const ResultFormat = {
+  JSON: "json",
+  CSV: "csv",
+} as const;
+
+export type ResultFormat = (typeof ResultFormat)[keyof typeof ResultFormat];
+
+/**
+ * Build the results file for a race
+ * @param result - Result of the race (see RaceSimulation.getResult)
+ * @param config - Race file the race was run from (see HorseEditor.getRaceConfig)
+ * @param dimensions - Track the race was run on
+ */
+export function createRaceResultFile(
+  result: RaceResult,
+  config: RaceConfig,
+  dimensions: TrackDimensions,
+): RaceResultFile {
+  const course = createRaceCourse(
+    calculateTrackLength(dimensions),
+    config.distance,
+  );
+  const winnerTime = result.finishers[0]?.finishTime ?? null;
+
+  return {
+    version: "1.0",
+    date: Date.now(),
+    raceSeed: result.raceSeed,
+    configHash: hashRaceConfig(config),
+    track: {
+      length: dimensions.length,
+      width: dimensions.width,
+      radius: dimensions.radius,
+      lapLength: course.lapLength,
+      raceDistance: course.raceDistance,
+      laps: course.totalLaps,
+      going: result.going,
+      weather: result.weather,
+      drafting: config.drafting ?? DEFAULT_DRAFTING_PRESET,
+    },
+    raceTime: result.raceTime,
+    splitPoints: result.splitPoints,
+    finishers: result.finishers.map((finisher) => ({
+      position: finisher.position,
+      horseId: finisher.horseId,
+      name: finisher.name,
+      stall: finisher.stall,
+      finishTime: finisher.finishTime,
+      gapToWinner:
+        finisher.finishTime !== null && winnerTime !== null
+          ? finisher.finishTime - winnerTime
+          : null,
+      margin: finisher.margin,
+      lengthsBehind: finisher.lengthsBehind,
+      splits: finisher.splits,
+    })),
+  };
+}
+
+/**
+ * Results as CSV, one row per horse in finishing order. The race details are
+ * repeated on every row so results from many races can be pasted into one sheet.
+ */
+export function raceResultToCSV(file: RaceResultFile): string {
+  const { track } = file;
+
+  return toCSV([
+    [
+      "Position",
+      "Horse",
+      "Stall",
+      "Finish Time",
+      "Gap To Winner",
+      "Margin",
+      "Lengths Behind",
+      "Race Seed",
+      "Distance",
+      "Laps",
+      "Going",
+      "Weather",
+      "Drafting",
+      "Straight Length",
+      "Track Width",
+      "Turn Radius",
+      "Config Hash",
+    ],
+    ...file.finishers.map((finisher) => [
+      finisher.position,
+      finisher.name,
+      finisher.stall,
+      finisher.finishTime?.toFixed(3) ?? "",
+      finisher.gapToWinner?.toFixed(3) ?? "",
+      finisher.margin ?? "",
+      finisher.lengthsBehind?.toFixed(2) ?? "",
+      file.raceSeed,
+      track.raceDistance.toFixed(1),
+      track.laps,
+      track.going,
+      track.weather,
+      track.drafting,
+      track.length,
+      track.width,
+      track.radius,
+      file.configHash,
+    ]),
+  ]);
+}
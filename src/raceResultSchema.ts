@@ -0,0 +1,52 @@
+import { z } from "zod";
+import {
+  DraftingPresetSchema,
+  GoingSchema,
+  WeatherSchema,
+} from "./raceConfigSchema";
+
+/**
+ * Zod schema for validating exported race results
+ */
+
+const ResultTrackSchema = z.object({
+  length: z.number().positive(), // Length of the straights
+  width: z.number().positive(),
+  radius: z.number().positive(), // Radius of the turns
+  lapLength: z.number().positive(),
+  raceDistance: z.number().positive(),
+  laps: z.number().int().positive(),
+  going: GoingSchema,
+  weather: WeatherSchema,
+  drafting: DraftingPresetSchema,
+});
+
+const ResultSplitPointSchema = z.object({
+  label: z.string(),
+  distance: z.number(),
+});
+
+const ResultFinisherSchema = z.object({
+  position: z.number().int().positive(), // Shared by horses in a dead heat
+  horseId: z.string(),
+  name: z.string(),
+  stall: z.number().int().positive(),
+  finishTime: z.number().positive().nullable(), // Seconds, null if not home
+  gapToWinner: z.number().min(0).nullable(), // Seconds behind the winner, null if not home
+  margin: z.string().nullable(), // Official margin to the horse in front, e.g. "a neck"
+  lengthsBehind: z.number().min(0).nullable(), // Lengths behind the winner
+  splits: z.array(z.number().nullable()), // Race time at each split point
+});
+
+export const RaceResultFileSchema = z.object({
+  version: z.literal("1.0"),
+  date: z.number().int(), // When the results were exported (ms since epoch)
+  raceSeed: z.number().int(),
+  configHash: z.string().regex(/^[0-9a-f]{32}$/), // Fingerprint of the race config (see hashRaceConfig)
+  track: ResultTrackSchema,
+  raceTime: z.number().min(0),
+  splitPoints: z.array(ResultSplitPointSchema),
+  finishers: z.array(ResultFinisherSchema).min(1), // In finishing order
+});
+
+export type RaceResultFile = z.infer<typeof RaceResultFileSchema>;
@@ -1,11 +1,18 @@
 import * as THREE from "three";
 import { FONT } from "./constants";
+import { DEFAULT_GOING, type Going } from "./going";
 import type { HorseData } from "./horseStats";
 import { type BigScreenSystem, createBigScreen } from "./models/bigScreen";
 import { loadBleachers } from "./models/bleachers";
 import { createDistantHills } from "./models/distantHills";
 import { createBannerFabric, type RacingBanner } from "./models/racerBanners";
+import { StartingGate } from "./models/startingGate";
+import { getStartingGate, type RaceCourse } from "./raceSimulation";
 import { getCurrentTheme, getThemeConfig, type ThemeType } from "./themeConfig";
+import { DEFAULT_WEATHER, type Weather } from "./weather";
+
+const MAX_BANNER_SPACING = 8; // Space between racer banners for small fields
+const BANNER_ROW_WIDTH = 56; // Longest the row of racer banners gets (8 banners at full spacing)
 
 export interface RaceTrackConfig {
   length: number; // Length of straight sections
@@ -22,6 +29,12 @@ export class RaceTrack {
   private currentTheme: ThemeType;
   private horses: HorseData[] = [];
   private bigScreen: BigScreenSystem | null = null;
+  private startOffset: number = 0; // Lap position of the start gate (0 = finish line)
+  private going: Going = DEFAULT_GOING;
+  private trackMaterial: THREE.MeshStandardMaterial | null = null;
+  private weather: Weather = DEFAULT_WEATHER;
+  private snowTexture: THREE.CanvasTexture | null = null;
+  private startingGate: StartingGate | null = null;
 
   constructor(config?: Partial<RaceTrackConfig>) {
     this.config = {
@@ -239,12 +252,16 @@ export class RaceTrack {
   }
 
   private createTrack(): void {
-    const trackColor = 0xc19a6b; // Sandy brown color
+    // Surface colour depends on the going (sandy brown on good ground)
+    const { trackColor } = getThemeConfig(this.currentTheme).goingColors[
+      this.going
+    ];
     const material = new THREE.MeshStandardMaterial({
       color: trackColor,
       roughness: 0.9,
       metalness: 0.1,
     });
+    this.trackMaterial = material;
 
     // Create straight sections with slight overlap to avoid seams
     const overlap = 0.2; // Small overlap to eliminate seams
@@ -576,28 +593,58 @@ export class RaceTrack {
     this.createRacerBanners();
   }
 
-  public getStartingPositions(numPositions: number): THREE.Vector3[] {
-    const positions: THREE.Vector3[] = [];
-    const laneSpacing = this.config.width / (numPositions + 1);
+  /**
+   * Build the starting gate at the start of the current course (see setCourse).
+   * Same layout as the simulation, stall 1 on the inside rail and rows for big fields.
+   */
+  public setStartingGate(fieldSize: number): void {
+    if (this.startingGate) {
+      this.group.remove(this.startingGate.getGroup());
+      this.startingGate = null;
+    }
+    if (fieldSize === 0) return;
+
+    const gate = getStartingGate(fieldSize, this.config.width);
+    const stalls = gate.map((position, index) => {
+      const lapPosition = this.startOffset + position.progress;
+      const trackPos = this.getTrackPosition(lapPosition, position.laneOffset);
+      const ahead = this.getTrackPosition(
+        lapPosition + 0.1,
+        position.laneOffset,
+      );
+      const direction = new THREE.Vector3().subVectors(ahead, trackPos);
+      const stallsInRow = gate.filter(
+        (other) => other.progress === position.progress,
+      ).length;
+
+      return {
+        stall: index + 1,
+        position: trackPos,
+        rotation: Math.atan2(direction.x, direction.z),
+        width: this.config.width / (stallsInRow + 1),
+      };
+    });
 
-    for (let i = 0; i < numPositions; i++) {
-      // Calculate lane offset for this horse
-      const laneOffset = laneSpacing * (i + 1);
+    this.startingGate = new StartingGate(stalls);
+    this.group.add(this.startingGate.getGroup());
+  }
 
-      // Use getTrackPosition at progress 0 to align with race start
-      const trackPos = this.getTrackPosition(0, laneOffset);
-      trackPos.y = 0.5; // Horse height above ground
+  public openStartingGate(): void {
+    this.startingGate?.open();
+  }
 
-      positions.push(trackPos);
-    }
+  public closeStartingGate(): void {
+    this.startingGate?.close();
+  }
 
-    return positions;
+  public updateStartingGate(deltaTime: number): void {
+    this.startingGate?.update(deltaTime);
   }
 
   /**
    * Get a position on the track based on progress distance traveled.
-   * Progress 0 starts at the starting line, increases as you go around the track.
-   * @param progress - Distance traveled around track
+   * Progress 0 is the finish line, increases as you go around the track.
+   * @param progress - Distance traveled around track (wraps every lap)
    * @param laneOffset - Offset from inner edge (0 = inner barrier, this.config.width = outer barrier)
    * @returns Position on the track
    */
@@ -608,16 +655,9 @@ export class RaceTrack {
     const totalLength =
       this.config.length * 2 + Math.PI * this.config.radius * 2;
 
-    // Handle progress beyond track length (for deceleration after finish)
-    if (progress > totalLength) {
-      // Continue straight past the finish line in +X direction
-      const extraDistance = progress - totalLength;
-      const zFromInner = this.config.radius + laneOffset;
-      const x = -this.config.length / 2 + extraDistance;
-      return new THREE.Vector3(x, 0, zFromInner);
-    }
-
-    const normalizedProgress = (progress % totalLength) / totalLength;
+    // Wrap around for multi-lap races
+    const lapProgress = ((progress % totalLength) + totalLength) % totalLength;
+    const normalizedProgress = lapProgress / totalLength;
 
     const straightLength = this.config.length;
     const curveLength = Math.PI * this.config.radius;
@@ -661,18 +701,88 @@ export class RaceTrack {
     }
   }
 
+  /**
+   * Get a position for a horse's race progress on the given course.
+   * Progress 0 is the start gate; past the finish line horses pull up straight ahead.
+   * @param progress - Distance traveled since the start gate
+   * @param laneOffset - Offset from inner edge
+   * @param course - Race course the horse is running
+   */
+  public getCoursePosition(
+    progress: number,
+    laneOffset: number,
+    course: RaceCourse,
+  ): THREE.Vector3 {
+    if (progress > course.raceDistance) {
+      // Continue straight past the finish line in +X direction
+      const extraDistance = progress - course.raceDistance;
+      const zFromInner = this.config.radius + laneOffset;
+      const x = -this.config.length / 2 + extraDistance;
+      return new THREE.Vector3(x, 0, zFromInner);
+    }
+
+    return this.getTrackPosition(course.startOffset + progress, laneOffset);
+  }
+
+  /**
+   * Move the start gate line to where the course begins.
+   * No line is drawn when the race starts on the finish line.
+   */
+  public setCourse(course: RaceCourse): void {
+    this.startOffset = course.startOffset;
+    this.group.children = this.group.children.filter(
+      (child) => !child.userData.isStartLine,
+    );
+    this.createStartLine();
+  }
+
+  private createStartLine(): void {
+    if (this.startOffset === 0) return;
+
+    const position = this.getTrackPosition(
+      this.startOffset,
+      this.config.width / 2,
+    );
+    const ahead = this.getTrackPosition(
+      this.startOffset + 0.1,
+      this.config.width / 2,
+    );
+    const direction = new THREE.Vector3().subVectors(ahead, position);
+
+    const line = new THREE.Mesh(
+      new THREE.BoxGeometry(0.4, 0.11, this.config.width),
+      new THREE.MeshStandardMaterial({
+        color: 0xffffff,
+        roughness: 0.8,
+        metalness: 0.2,
+      }),
+    );
+    line.position.set(position.x, 0.05, position.z);
+    // Lay the line across the track, perpendicular to the direction of travel
+    line.rotation.y = Math.atan2(direction.x, direction.z) - Math.PI / 2;
+    line.receiveShadow = true;
+    line.userData.isStartLine = true;
+    this.group.add(line);
+  }
+
   private createRacerBanners(): void {
     if (this.horses.length === 0) return;
 
     const themeConfig = getThemeConfig(this.currentTheme);
     const numBanners = this.horses.length;
-    const bannerSpacing = 8; // Space between banners
+    // Space between banners, closing up so a big field still fits along the straight
+    const bannerSpacing =
+      numBanners > 1
+        ? Math.min(MAX_BANNER_SPACING, BANNER_ROW_WIDTH / (numBanners - 1))
+        : MAX_BANNER_SPACING;
     const totalWidth = (numBanners - 1) * bannerSpacing;
     const startX = -totalWidth / 2; // Center the group
 
+    // Shrink the banners to leave a gap between neighbours
+    const bannerScale = Math.min(1, (bannerSpacing * 0.8) / 1.5);
     const poleHeight = 5;
-    const bannerWidth = 1.5;
-    const bannerHeight = 2.5;
+    const bannerWidth = 1.5 * bannerScale;
+    const bannerHeight = 2.5 * bannerScale;
 
     for (let i = 0; i < numBanners; i++) {
       const horse = this.horses[i];
@@ -763,16 +873,68 @@ export class RaceTrack {
   private updateGroundTexture(): void {
     if (!this.ground) return;
     const themeConfig = getThemeConfig(this.currentTheme);
+    const material = this.ground.material as THREE.MeshStandardMaterial;
 
-    // Update ground color
-    (this.ground.material as THREE.MeshStandardMaterial).color.setHex(
-      themeConfig.groundColor,
-    );
+    // Falling snow settles over the theme's ground
+    const groundTexture =
+      this.weather === "snow" ? "snow" : themeConfig.groundTexture;
 
-    // Add texture pattern if needed
-    if (themeConfig.groundTexture === "snow") {
-      // Could add snow texture here if desired
+    if (groundTexture === "snow") {
+      material.color.setHex(0xffffff);
+      material.map = this.getSnowTexture();
+    } else {
+      // Ground color for the current going
+      material.color.setHex(themeConfig.goingColors[this.going].groundColor);
+      material.map = null;
+    }
+    material.needsUpdate = true;
+  }
+
+  /**
+   * Speckled white texture for snow covered ground (created once)
+   */
+  private getSnowTexture(): THREE.CanvasTexture {
+    if (this.snowTexture) return this.snowTexture;
+
+    const canvas = document.createElement("canvas");
+    canvas.width = 128;
+    canvas.height = 128;
+    const context = canvas.getContext("2d")!;
+    context.fillStyle = "#f4f7fb";
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    for (let i = 0; i < 400; i++) {
+      context.fillStyle = Math.random() < 0.5 ? "#dde6f0" : "#ffffff";
+      context.fillRect(
+        Math.random() * canvas.width,
+        Math.random() * canvas.height,
+        2,
+        2,
+      );
     }
+
+    this.snowTexture = new THREE.CanvasTexture(canvas);
+    this.snowTexture.wrapS = THREE.RepeatWrapping;
+    this.snowTexture.wrapT = THREE.RepeatWrapping;
+    this.snowTexture.repeat.set(40, 40);
+    return this.snowTexture;
+  }
+
+  /**
+   * Cover the ground in snow while it is snowing
+   */
+  public setWeather(weather: Weather): void {
+    this.weather = weather;
+    this.updateGroundTexture();
+  }
+
+  /**
+   * Recolour the track and ground for the race going
+   */
+  public setGoing(going: Going): void {
+    this.going = going;
+    const { trackColor } = getThemeConfig(this.currentTheme).goingColors[going];
+    this.trackMaterial?.color.setHex(trackColor);
+    this.updateGroundTexture();
   }
 
   public updateTheme(newTheme: ThemeType): void {
@@ -791,6 +953,10 @@ export class RaceTrack {
     createDistantHills(this.group, this.config, this.currentTheme);
     loadBleachers(this.group, this.config);
     this.createRacerBanners(); // Recreate racer banners with new theme
+    this.createStartLine();
+    if (this.startingGate) {
+      this.group.add(this.startingGate.getGroup());
+    }
 
     // Recreate big screen if it existed
     if (placeholderTexture) {
@@ -1,11 +1,14 @@
 import * as THREE from "three";
+import { GOING_LABELS, type Going, getGoingSuitability } from "./going";
 import { createFace, createHat } from "./horseAccessories";
 import type { HorseData } from "./horseStats";
+import type { HorseOdds } from "./oddsCalculator";
 import {
   type RiderData,
   renderRidersContent,
   ridersOverlayStyles,
 } from "./overlays/overlayTemplates";
+import { WEATHER_LABELS, type Weather } from "./weather";
 
 export class RidersOverlay {
   private overlayElement: HTMLDivElement;
@@ -84,35 +87,19 @@ export class RidersOverlay {
   }
 
   /**
-   * Calculate win odds based on horse stats
-   * Formula: weighted average of stats, normalized across all horses
+   * Render the roster
+   * @param odds - Monte Carlo odds for the field, null while they are still being worked out
+   * @param raceTitle - Shown above the going, e.g. the race's place on a meeting card
+   * @param stalls - Gate draw, starting stall by horse id
    */
-  private calculateOdds(horses: HorseData[]): Map<string, number> {
-    const odds = new Map<string, number>();
-
-    // Calculate weighted score for each horse
-    // Speed is most important, then stamina, then acceleration
-    const scores = horses.map((horse) => {
-      const score =
-        horse.stats.speed * 0.5 +
-        horse.stats.stamina * 0.3 +
-        horse.stats.acceleration * 0.2;
-      return { id: horse.id, score };
-    });
-
-    // Calculate total score
-    const totalScore = scores.reduce((sum, entry) => sum + entry.score, 0);
-
-    // Convert to percentages
-    scores.forEach((entry) => {
-      const percentage = (entry.score / totalScore) * 100;
-      odds.set(entry.id, percentage);
-    });
-
-    return odds;
-  }
-
-  public update(horses: HorseData[]): void {
+  public update(
+    horses: HorseData[],
+    going: Going,
+    weather: Weather,
+    odds: HorseOdds[] | null,
+    raceTitle: string | null = null,
+    stalls: Map<string, number> = new Map(),
+  ): void {
     if (horses.length === 0) {
       this.overlayElement.innerHTML = `
         <div style="
@@ -141,14 +128,12 @@ export class RidersOverlay {
       return;
     }
 
-    const odds = this.calculateOdds(horses);
+    const oddsById = new Map(odds?.map((entry) => [entry.horseId, entry]));
 
-    // Sort horses by odds (descending)
-    const sortedHorses = [...horses].sort((a, b) => {
-      const oddsA = odds.get(a.id) ?? 0;
-      const oddsB = odds.get(b.id) ?? 0;
-      return oddsB - oddsA;
-    });
+    // Favourite first once the odds are in
+    const sortedHorses = [...horses].sort(
+      (a, b) => (oddsById.get(b.id)?.win ?? 0) - (oddsById.get(a.id)?.win ?? 0),
+    );
 
     // Convert to RiderData format
     const ridersData: RiderData[] = sortedHorses.map((horse) => ({
@@ -157,11 +142,22 @@ export class RidersOverlay {
       speed: horse.stats.speed,
       stamina: horse.stats.stamina,
       acceleration: horse.stats.acceleration,
-      winProbability: (odds.get(horse.id) ?? 0) / 100,
+      odds: oddsById.get(horse.id) ?? null,
+      preferredGoing: horse.preferredGoing
+        ? GOING_LABELS[horse.preferredGoing]
+        : null,
+      goingSuitability: getGoingSuitability(horse.preferredGoing, going),
+      pedigree: horse.pedigree ?? null,
+      stall: stalls.get(horse.id) ?? null,
       previewImage: this.generateHorsePreview(horse),
     }));
 
-    this.overlayElement.innerHTML = renderRidersContent(ridersData);
+    this.overlayElement.innerHTML = renderRidersContent(
+      ridersData,
+      GOING_LABELS[going],
+      WEATHER_LABELS[weather],
+      raceTitle,
+    );
   }
 
   public show(): void {
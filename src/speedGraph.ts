@@ -1,4 +1,4 @@
-import type { SpeedPoint } from "./horseStats";
+import { FATIGUE_THRESHOLD, type SpeedPoint } from "./horseStats";
 
 export class SpeedGraph {
   /**
@@ -25,7 +25,7 @@ export class SpeedGraph {
     const speeds = speedCurve.map((p) => p.speed);
     const minSpeed = Math.min(...speeds);
     const maxSpeed = Math.max(...speeds);
-    const speedRange = maxSpeed - minSpeed;
+    const speedRange = maxSpeed - minSpeed || 1;
 
     // Draw axes
     ctx.strokeStyle = "#555";
@@ -96,46 +96,64 @@ export class SpeedGraph {
     ctx.closePath();
     ctx.fill();
 
-    // Find key points on the curve
-    const keyPoints: { x: number; y: number; color: string; label: string }[] =
-      [];
+    // Draw energy left (0-100% of graph height) as a dashed line
+    ctx.strokeStyle = "#ff9f43";
+    ctx.lineWidth = 1.5;
+    ctx.setLineDash([4, 3]);
+    ctx.beginPath();
+    for (let i = 0; i < speedCurve.length; i++) {
+      const point = speedCurve[i];
+      const x = padding + (point.distance / maxDistance) * graphWidth;
+      const y = height - padding - point.energy * graphHeight;
 
-    // Find acceleration end (when speed stabilizes to cruising)
-    let accelEndIndex = 0;
-
-    // Look for where speed curve flattens (derivative near zero)
-    for (let i = 5; i < speedCurve.length - 5; i++) {
-      const speedChange = Math.abs(
-        speedCurve[i + 1].speed - speedCurve[i].speed,
-      );
-      if (speedChange < 0.05) {
-        accelEndIndex = i;
-        break;
+      if (i === 0) {
+        ctx.moveTo(x, y);
+      } else {
+        ctx.lineTo(x, y);
       }
     }
+    ctx.stroke();
+    ctx.setLineDash([]);
 
-    if (accelEndIndex > 0) {
-      const point = speedCurve[accelEndIndex];
-      const x = padding + (point.distance / maxDistance) * graphWidth;
-      const y =
-        height -
-        padding -
-        ((point.speed - minSpeed) / speedRange) * graphHeight;
-      keyPoints.push({ x, y, color: "#ffe66d", label: "Cruising Speed" });
-    }
+    ctx.fillStyle = "#ff9f43";
+    ctx.textAlign = "right";
+    ctx.fillText("Energy", width - padding, padding - 5);
 
-    // Find final stretch start (85% of track where speed starts increasing again)
-    const finalStretchIndex = Math.floor(speedCurve.length * 0.85);
+    // Find key points on the curve
+    const keyPoints: { x: number; y: number; color: string; label: string }[] =
+      [];
 
-    if (finalStretchIndex < speedCurve.length) {
-      const point = speedCurve[finalStretchIndex];
+    const addKeyPoint = (index: number, color: string, label: string) => {
+      if (index < 0) return;
+      const point = speedCurve[index];
       const x = padding + (point.distance / maxDistance) * graphWidth;
       const y =
         height -
         padding -
         ((point.speed - minSpeed) / speedRange) * graphHeight;
-      keyPoints.push({ x, y, color: "#4ecdc4", label: "Final Stretch" });
-    }
+      keyPoints.push({ x, y, color, label });
+    };
+
+    // Acceleration end (reached cruising speed)
+    addKeyPoint(
+      speedCurve.findIndex((p) => p.phase === "cruising"),
+      "#ffe66d",
+      "Cruising Speed",
+    );
+
+    // Start of the final push
+    addKeyPoint(
+      speedCurve.findIndex((p) => p.phase === "push"),
+      "#4ecdc4",
+      "Final Push",
+    );
+
+    // Where the horse runs low on energy and starts to fade
+    addKeyPoint(
+      speedCurve.findIndex((p) => p.energy < FATIGUE_THRESHOLD),
+      "#ff6b6b",
+      "Tiring",
+    );
 
     // Draw key points as colored circles
     keyPoints.forEach((point) => {
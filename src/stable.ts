@@ -0,0 +1,246 @@
+import type { HorseData, HorseStats } from "./horseStats";
+import type { RaceResult } from "./raceSimulation";
+import {
+  type CareerStats,
+  type StableData,
+  type StableEntry,
+  StableSchema,
+} from "./stableSchema";
+import {
+  createTrainingState,
+  RACE_FATIGUE,
+  type TrainingActivity,
+  trainWeek,
+} from "./training";
+import { createRandom, RandomStream } from "./utils/random";
+
+/**
+ * Saved library of horses with their career records and training.
+ * Kept in localStorage so horses outlive a reload, and updated after every
+ * race a stable horse runs in and every week of training.
+ */
+
+// Prize money for 1st, 2nd, 3rd and 4th, everyone else earns nothing
+export const PRIZE_MONEY = [5000, 2000, 1000, 500];
+const STABLE_STORAGE_KEY = "reindeer-racing-stable";
+const MAX_RACE_HASHES = 100; // Races remembered per career, oldest dropped beyond this
+
+export interface TrainingReport {
+  horseId: string;
+  name: string;
+  before: HorseStats;
+  after: HorseStats;
+  fatigue: number;
+  injured: boolean; // Picked up an injury this week
+  injuryWeeks: number; // Weeks still out
+}
+
+export class Stable {
+  private entries: StableEntry[];
+  private week: number; // Training weeks run so far
+
+  constructor() {
+    const data = this.load();
+    this.entries = data.entries;
+    this.week = data.week;
+  }
+
+  private load(): StableData {
+    const empty: StableData = {
+      version: "1.0",
+      week: 0,
+      entries: [],
+    };
+
+    const stored = localStorage.getItem(STABLE_STORAGE_KEY);
+    if (!stored) return empty;
+
+    try {
+      const result = StableSchema.safeParse(JSON.parse(stored));
+      if (result.success) return result.data;
+      console.warn("Ignoring saved stable:", result.error.issues);
+    } catch {
+      console.warn("Ignoring unreadable saved stable");
+    }
+    return empty;
+  }
+
+  private save(): void {
+    const data: StableData = {
+      version: "1.0",
+      week: this.week,
+      entries: this.entries,
+    };
+    localStorage.setItem(STABLE_STORAGE_KEY, JSON.stringify(data));
+  }
+
+  public getEntries(): StableEntry[] {
+    return this.entries;
+  }
+
+  public has(horseId: string): boolean {
+    return this.entries.some((entry) => entry.horse.id === horseId);
+  }
+
+  public getHorse(horseId: string): HorseData | undefined {
+    return this.entries.find((entry) => entry.horse.id === horseId)?.horse;
+  }
+
+  public getWeek(): number {
+    return this.week;
+  }
+
+  /**
+   * Whether a horse is out injured (horses not in the stable never are)
+   */
+  public isInjured(horseId: string): boolean {
+    const entry = this.entries.find((e) => e.horse.id === horseId);
+    return (entry?.training.injuryWeeks ?? 0) > 0;
+  }
+
+  /**
+   * Add a horse with an empty career (does nothing if it's already in the stable)
+   */
+  public add(horse: HorseData): void {
+    if (this.has(horse.id)) return;
+
+    this.entries.push({
+      horse: structuredClone(horse),
+      career: {
+        starts: 0,
+        wins: 0,
+        places: 0,
+        earnings: 0,
+        bestTimes: [],
+        raceHashes: [],
+      },
+      training: createTrainingState(),
+    });
+    this.save();
+  }
+
+  public remove(horseId: string): void {
+    this.entries = this.entries.filter((entry) => entry.horse.id !== horseId);
+    this.save();
+  }
+
+  /**
+   * Copy edits made in the editor onto the stable's copy of each horse
+   * @param horses - Horses added to the field from the stable (see HorseEditor)
+   */
+  public updateHorses(horses: HorseData[]): void {
+    let changed = false;
+    horses.forEach((horse) => {
+      const entry = this.entries.find((e) => e.horse.id === horse.id);
+      if (entry && JSON.stringify(entry.horse) !== JSON.stringify(horse)) {
+        entry.horse = structuredClone(horse);
+        changed = true;
+      }
+    });
+    if (changed) this.save();
+  }
+
+  /**
+   * Add a finished race to the careers of the stable horses that ran in it,
+   * skipping any career that has already counted it
+   * @param configHash - Hash of the race file (see hashRaceConfig)
+   * @returns false if the race was already in a career
+   */
+  public recordRace(result: RaceResult, configHash: string): boolean {
+    const distance = Math.round(result.raceDistance);
+    let changed = false;
+    let repeated = false;
+
+    result.finishers.forEach((finisher) => {
+      const entry = this.entries.find((e) => e.horse.id === finisher.horseId);
+      if (!entry) return;
+      if (entry.career.raceHashes.includes(configHash)) {
+        repeated = true;
+        return;
+      }
+
+      entry.training.fatigue = Math.min(
+        1,
+        entry.training.fatigue + RACE_FATIGUE,
+      );
+
+      const career = entry.career;
+      career.raceHashes = [...career.raceHashes, configHash].slice(
+        -MAX_RACE_HASHES,
+      );
+      career.starts++;
+      if (finisher.position === 1) career.wins++;
+      if (finisher.position === 2 || finisher.position === 3) career.places++;
+      career.earnings += PRIZE_MONEY[finisher.position - 1] ?? 0;
+
+      // A back row start is too big a handicap for a fair best time
+      if (finisher.finishTime !== null && !finisher.backRow) {
+        const best = career.bestTimes.find((b) => b.distance === distance);
+        if (!best) {
+          career.bestTimes.push({ distance, time: finisher.finishTime });
+        } else if (finisher.finishTime < best.time) {
+          best.time = finisher.finishTime;
+        }
+      }
+      changed = true;
+    });
+
+    if (changed) this.save();
+    return !repeated;
+  }
+
+  public setTrainingDay(
+    horseId: string,
+    day: number,
+    activity: TrainingActivity,
+  ): void {
+    const entry = this.entries.find((e) => e.horse.id === horseId);
+    if (!entry || day < 0 || day >= entry.training.schedule.length) return;
+
+    entry.training.schedule[day] = activity;
+    this.save();
+  }
+
+  /**
+   * Run a week of training for every stable horse
+   */
+  public trainWeek(): TrainingReport[] {
+    this.week++;
+    const random = createRandom(this.week, RandomStream.TRAINING);
+
+    const reports = this.entries.map((entry) => {
+      const before = entry.horse.stats;
+      const week = trainWeek(
+        before,
+        entry.training,
+        random.fork(entry.horse.id),
+      );
+      entry.horse.stats = week.stats;
+      entry.training = week.training;
+
+      return {
+        horseId: entry.horse.id,
+        name: entry.horse.name,
+        before,
+        after: week.stats,
+        fatigue: week.training.fatigue,
+        injured: week.injured,
+        injuryWeeks: week.training.injuryWeeks,
+      };
+    });
+
+    this.save();
+    return reports;
+  }
+}
+
+/**
+ * Fastest time a horse has run over a distance, if it has run it
+ */
+export function getBestTime(
+  career: CareerStats,
+  distance: number,
+): number | null {
+  const rounded = Math.round(distance);
+  return career.bestTimes.find((b) => b.distance === rounded)?.time ?? null;
+}
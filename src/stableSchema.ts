@@ -0,0 +1,52 @@
+import { z } from "zod";
+import { HorseDataSchema } from "./raceConfigSchema";
+import { createTrainingState } from "./training";
+
+/**
+ * Zod schema for validating the saved stable
+ */
+
+const CareerStatsSchema = z.object({
+  starts: z.number().int().min(0),
+  wins: z.number().int().min(0),
+  places: z.number().int().min(0), // 2nd and 3rd places
+  earnings: z.number().min(0),
+  bestTimes: z.array(
+    z.object({
+      distance: z.number().positive(), // Race length in metres
+      time: z.number().positive(), // Seconds
+    }),
+  ),
+  raceHashes: z.array(z.string()).default([]), // Latest races counted (see hashRaceConfig), oldest first
+});
+
+const TrainingActivitySchema = z.enum([
+  "speed-work",
+  "stamina-gallop",
+  "gate-practice",
+  "rest",
+]);
+
+const TrainingStateSchema = z.object({
+  schedule: z.array(TrainingActivitySchema).length(7), // Monday to Sunday
+  fatigue: z.number().min(0).max(1),
+  injuryWeeks: z.number().int().min(0), // Weeks left out of training and racing
+});
+
+const StableEntrySchema = z.object({
+  horse: HorseDataSchema,
+  career: CareerStatsSchema,
+  // Stables saved before training existed start on the default schedule
+  training: TrainingStateSchema.default(createTrainingState),
+});
+
+export const StableSchema = z.object({
+  version: z.literal("1.0"),
+  week: z.number().int().min(0).default(0), // Training weeks run so far
+  entries: z.array(StableEntrySchema),
+});
+
+export type CareerStats = z.infer<typeof CareerStatsSchema>;
+export type TrainingState = z.infer<typeof TrainingStateSchema>;
+export type StableEntry = z.infer<typeof StableEntrySchema>;
+export type StableData = z.infer<typeof StableSchema>;
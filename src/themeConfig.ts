@@ -1,17 +1,34 @@
+import type { Going } from "./going";
+
 /**
  * Theme configuration for the race track
  */
 
 export type ThemeType = "normal" | "christmas";
 
+export interface GoingColors {
+  groundColor: number;
+  trackColor: number;
+}
+
 export interface ThemeConfig {
   name: string;
   groundColor: number;
-  groundTexture?: "grass" | "snow";
+  groundTexture?: "grass" | "snow"; // Snow weather covers the ground in snow whatever the theme
   fenceType: "post" | "candy-cane";
   skyColor: number;
+  goingColors: Record<Going, GoingColors>; // Ground and track colours for each going
 }
 
+// Drier ground is paler, wetter ground darker
+const GRASS_GOING_COLORS: Record<Going, GoingColors> = {
+  firm: { groundColor: 0xa8e08c, trackColor: 0xd2b48c },
+  good: { groundColor: 0x90ee90, trackColor: 0xc19a6b },
+  soft: { groundColor: 0x78cf78, trackColor: 0xa67c52 },
+  heavy: { groundColor: 0x5fa85f, trackColor: 0x7a5a3a },
+  snow: { groundColor: 0xf5f8ff, trackColor: 0xe3e9f0 },
+};
+
 export const THEMES: Record<ThemeType, ThemeConfig> = {
   normal: {
     name: "Normal",
@@ -19,6 +36,7 @@ export const THEMES: Record<ThemeType, ThemeConfig> = {
     groundTexture: "grass",
     fenceType: "post",
     skyColor: 0x6495ed,
+    goingColors: GRASS_GOING_COLORS,
   },
   christmas: {
     name: "Christmas",
@@ -26,6 +44,10 @@ export const THEMES: Record<ThemeType, ThemeConfig> = {
     groundTexture: "grass",
     fenceType: "candy-cane",
     skyColor: 0x87ceeb,
+    goingColors: {
+      ...GRASS_GOING_COLORS,
+      snow: { groundColor: 0xffffff, trackColor: 0xeef3fa },
+    },
   },
 };
 
@@ -0,0 +1,251 @@
+import type { HorseData } from "./horseStats";
+import { createRandom, RandomStream, type SeededRandom } from "./utils/random";
+
+/**
+ * Knockout tournaments for fields too big for one race.
+ * Entrants are drawn into heats of up to MAX_RACE_FIELD horses and the top
+ * finishers of each race go through to the next round until one race (the
+ * final) is left. Every draw and race seed comes from the tournament seed.
+ */
+
+export const TournamentStage = {
+  HEAT: "heat",
+  QUARTER_FINAL: "quarter-final",
+  SEMI_FINAL: "semi-final",
+  FINAL: "final",
+} as const;
+
+export type TournamentStage =
+  (typeof TournamentStage)[keyof typeof TournamentStage];
+
+export const TOURNAMENT_STAGE_LABELS: Record<TournamentStage, string> = {
+  heat: "Heat",
+  "quarter-final": "Quarter-final",
+  "semi-final": "Semi-final",
+  final: "Final",
+};
+
+export const MAX_RACE_FIELD = 8; // Heat size, small enough to follow every horse
+export const MIN_TOURNAMENT_ENTRANTS = 2;
+
+export interface TournamentRace {
+  id: string;
+  label: string; // e.g. "Heat 3"
+  raceSeed: number;
+  horseIds: string[]; // Empty until the previous round is over
+  finishOrder: string[] | null; // Horse ids, winner first, once run
+  positions: number[] | null; // Position of each horse in finishOrder, shared in a dead heat
+}
+
+export interface TournamentRound {
+  stage: TournamentStage;
+  races: TournamentRace[];
+  qualifiersPerRace: number; // 0 for the final
+}
+
+export class Tournament {
+  private seed: number;
+  private horses: HorseData[];
+  private rounds: TournamentRound[];
+  private random: SeededRandom;
+
+  constructor(horses: HorseData[], seed: number) {
+    if (horses.length < MIN_TOURNAMENT_ENTRANTS) {
+      throw new Error(
+        `A tournament needs at least ${MIN_TOURNAMENT_ENTRANTS} horses`,
+      );
+    }
+
+    this.seed = seed;
+    this.horses = horses;
+    this.random = createRandom(seed, RandomStream.TOURNAMENT);
+    this.rounds = this.planRounds(horses.length);
+
+    // Heats are a random draw, dealt out so the fields are even
+    const drawn = this.shuffle(horses.map((horse) => horse.id));
+    this.deal(drawn, this.rounds[0].races);
+  }
+
+  /**
+   * Work out how many races each round has and how many go through from each.
+   * Each round has about half the races of the one before.
+   */
+  private planRounds(entrants: number): TournamentRound[] {
+    const plan: { races: number; qualifiers: number }[] = [];
+    let remaining = entrants;
+
+    while (true) {
+      const races = Math.ceil(remaining / MAX_RACE_FIELD);
+      if (races === 1) {
+        plan.push({ races, qualifiers: 0 });
+        break;
+      }
+
+      // Fill the next round, but never send a whole heat through
+      const nextRaces = Math.ceil(races / 2);
+      const smallestField = Math.floor(remaining / races);
+      const qualifiers = Math.max(
+        1,
+        Math.min(
+          Math.floor((MAX_RACE_FIELD * nextRaces) / races),
+          smallestField - 1,
+        ),
+      );
+      plan.push({ races, qualifiers });
+      remaining = races * qualifiers;
+    }
+
+    return plan.map((round, roundIndex) => {
+      const stage = getStage(roundIndex, plan.length);
+      const label = TOURNAMENT_STAGE_LABELS[stage];
+      return {
+        stage,
+        qualifiersPerRace: round.qualifiers,
+        races: Array.from({ length: round.races }, (_, raceIndex) => ({
+          id: `round-${roundIndex + 1}-race-${raceIndex + 1}`,
+          label: round.races > 1 ? `${label} ${raceIndex + 1}` : label,
+          raceSeed: this.random
+            .fork(`race-${roundIndex}-${raceIndex}`)
+            .int(1000000),
+          horseIds: [],
+          finishOrder: null,
+          positions: null,
+        })),
+      };
+    });
+  }
+
+  private shuffle(ids: string[]): string[] {
+    const shuffled = [...ids];
+    const random = this.random.fork("draw");
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = random.int(i + 1);
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+
+  /**
+   * Deal horses across races in a snake (1, 2, 3, 3, 2, 1, ...) so each race
+   * gets a fair share of the strongest qualifiers
+   */
+  private deal(ids: string[], races: TournamentRace[]): void {
+    ids.forEach((id, index) => {
+      const lap = Math.floor(index / races.length);
+      const offset = index % races.length;
+      const raceIndex = lap % 2 === 0 ? offset : races.length - 1 - offset;
+      races[raceIndex].horseIds.push(id);
+    });
+  }
+
+  /**
+   * Next race to run, or null once the final has been run
+   */
+  public getCurrentRace(): TournamentRace | null {
+    for (const round of this.rounds) {
+      const race = round.races.find((r) => r.finishOrder === null);
+      if (race) return race;
+    }
+    return null;
+  }
+
+  /**
+   * Record the finishing order of the current race. Once every race in a
+   * round has been run, the qualifiers are drawn into the next round.
+   * Every horse placed at or above the cut-off goes through, so a dead heat
+   * on the cut-off sends all the tied horses through (making a field one or
+   * two bigger in the next round).
+   * @param finishOrder - Horse ids, winner first
+   * @param positions - Position of each horse, shared in a dead heat (defaults to 1, 2, 3, ...)
+   */
+  public recordResult(
+    finishOrder: string[],
+    positions: number[] = finishOrder.map((_, index) => index + 1),
+  ): void {
+    const race = this.getCurrentRace();
+    if (!race) return;
+
+    // Only keep horses that were in the race, in case the field was edited
+    const kept = finishOrder.flatMap((id, index) =>
+      race.horseIds.includes(id) ? [{ id, position: positions[index] }] : [],
+    );
+    race.finishOrder = kept.map((entry) => entry.id);
+    race.positions = kept.map((entry) => entry.position);
+
+    const roundIndex = this.rounds.findIndex((round) =>
+      round.races.includes(race),
+    );
+    const round = this.rounds[roundIndex];
+    const nextRound = this.rounds[roundIndex + 1];
+    if (!nextRound || round.races.some((r) => r.finishOrder === null)) return;
+
+    // Winners first, then runners-up and so on, each group in race order
+    const qualifiers: string[] = [];
+    for (let place = 1; place <= round.qualifiersPerRace; place++) {
+      round.races.forEach((r) => {
+        r.finishOrder?.forEach((horseId, index) => {
+          if (r.positions?.[index] === place) qualifiers.push(horseId);
+        });
+      });
+    }
+    this.deal(qualifiers, nextRound.races);
+  }
+
+  /**
+   * Horses that go through from a race that has been run
+   */
+  public getQualifiers(race: TournamentRace): string[] {
+    const round = this.rounds.find((r) => r.races.includes(race));
+    if (!round || !race.finishOrder) return [];
+    return race.finishOrder.filter(
+      (_, index) => (race.positions?.[index] ?? 0) <= round.qualifiersPerRace,
+    );
+  }
+
+  public getRaceHorses(race: TournamentRace): HorseData[] {
+    return race.horseIds
+      .map((id) => this.getHorse(id))
+      .filter((horse): horse is HorseData => horse !== undefined);
+  }
+
+  public getHorse(id: string): HorseData | undefined {
+    return this.horses.find((horse) => horse.id === id);
+  }
+
+  /**
+   * Winner of the final, once it has been run
+   */
+  public getChampion(): HorseData | null {
+    const final = this.rounds[this.rounds.length - 1].races[0];
+    const winnerId = final.finishOrder?.[0];
+    return winnerId ? (this.getHorse(winnerId) ?? null) : null;
+  }
+
+  public isComplete(): boolean {
+    return this.getCurrentRace() === null;
+  }
+
+  public getRounds(): TournamentRound[] {
+    return this.rounds;
+  }
+
+  public getSeed(): number {
+    return this.seed;
+  }
+
+  public getHorses(): HorseData[] {
+    return this.horses;
+  }
+}
+
+/**
+ * First round is always heats, the last three rounds are named back from the final
+ */
+function getStage(roundIndex: number, roundCount: number): TournamentStage {
+  const fromEnd = roundCount - 1 - roundIndex;
+  if (fromEnd === 0) return TournamentStage.FINAL;
+  if (roundIndex === 0) return TournamentStage.HEAT;
+  if (fromEnd === 1) return TournamentStage.SEMI_FINAL;
+  if (fromEnd === 2) return TournamentStage.QUARTER_FINAL;
+  return TournamentStage.HEAT;
+}
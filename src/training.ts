@@ -0,0 +1,148 @@
+import type { HorseStats } from "./horseStats";
+import type { TrainingState } from "./stableSchema";
+import type { SeededRandom } from "./utils/random";
+
+/**
+ * Weekly training for stable horses.
+ * Each day of a horse's schedule either works one stat or rests. Work builds
+ * the stat (less as it nears its peak, and less when the horse is tired) but
+ * adds fatigue, and a horse worked while very tired risks an injury that
+ * keeps it out of training and racing for a few weeks.
+ */
+
+export const TrainingActivity = {
+  SPEED_WORK: "speed-work",
+  STAMINA_GALLOP: "stamina-gallop",
+  GATE_PRACTICE: "gate-practice",
+  REST: "rest",
+} as const;
+
+export type TrainingActivity =
+  (typeof TrainingActivity)[keyof typeof TrainingActivity];
+
+export const TRAINING_ACTIVITY_LABELS: Record<TrainingActivity, string> = {
+  "speed-work": "Speed Work",
+  "stamina-gallop": "Stamina Gallop",
+  "gate-practice": "Gate Practice",
+  rest: "Rest",
+};
+
+export const TRAINING_DAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+// Two rest days a week keeps a horse fresh
+const DEFAULT_SCHEDULE: TrainingActivity[] = [
+  "speed-work",
+  "stamina-gallop",
+  "rest",
+  "gate-practice",
+  "stamina-gallop",
+  "speed-work",
+  "rest",
+];
+
+interface Workout {
+  stat: keyof HorseStats | null; // Stat the day builds, null for rest
+  gain: number; // Largest daily gain, for a fresh horse with the stat at 0
+  fatigue: number; // Fatigue added (negative recovers)
+}
+
+const WORKOUTS: Record<TrainingActivity, Workout> = {
+  "speed-work": { stat: "speed", gain: 0.03, fatigue: 0.14 },
+  "stamina-gallop": { stat: "stamina", gain: 0.03, fatigue: 0.12 },
+  "gate-practice": { stat: "acceleration", gain: 0.025, fatigue: 0.08 },
+  rest: { stat: null, gain: 0, fatigue: -0.25 },
+};
+
+const OVERNIGHT_RECOVERY = 0.04; // Fatigue shed every night
+const INJURY_FATIGUE = 0.6; // Working above this fatigue risks an injury
+const INJURY_RISK = 1.5; // Daily injury chance per unit of fatigue above the threshold
+const MAX_INJURY_WEEKS = 3;
+const INJURY_STAT_LOSS = 0.01; // Fitness lost from every stat for each week injured
+
+// Fatigue from running a race
+export const RACE_FATIGUE = 0.3;
+
+export interface TrainingWeek {
+  stats: HorseStats;
+  training: TrainingState;
+  injured: boolean; // Picked up an injury this week
+}
+
+/**
+ * Fresh training state on the default schedule
+ */
+export function createTrainingState(): TrainingState {
+  return { schedule: [...DEFAULT_SCHEDULE], fatigue: 0, injuryWeeks: 0 };
+}
+
+/**
+ * Run one week of a horse's schedule
+ * @param stats - Stats going into the week
+ * @param training - Schedule, fatigue and injury going into the week
+ * @param random - Training stream for this horse and week
+ */
+export function trainWeek(
+  stats: HorseStats,
+  training: TrainingState,
+  random: SeededRandom,
+): TrainingWeek {
+  const next = { ...stats };
+
+  // Injured horses rest all week and lose a little fitness
+  if (training.injuryWeeks > 0) {
+    for (const stat of Object.keys(next) as (keyof HorseStats)[]) {
+      next[stat] = round(Math.max(0, next[stat] - INJURY_STAT_LOSS));
+    }
+    return {
+      stats: next,
+      training: {
+        ...training,
+        fatigue: 0,
+        injuryWeeks: training.injuryWeeks - 1,
+      },
+      injured: false,
+    };
+  }
+
+  let fatigue = training.fatigue;
+  let injuryWeeks = 0;
+
+  for (const activity of training.schedule) {
+    const workout = WORKOUTS[activity];
+
+    if (workout.stat) {
+      if (
+        fatigue > INJURY_FATIGUE &&
+        random.next() < (fatigue - INJURY_FATIGUE) * INJURY_RISK
+      ) {
+        injuryWeeks = 1 + random.int(MAX_INJURY_WEEKS);
+        break;
+      }
+
+      const stat = next[workout.stat];
+      const gain =
+        workout.gain * (1 - stat) * (1 - fatigue) * random.range(0.5, 1.5);
+      next[workout.stat] = round(Math.min(1, stat + gain));
+    }
+
+    fatigue = clamp(fatigue + workout.fatigue - OVERNIGHT_RECOVERY, 0, 1);
+  }
+
+  return {
+    stats: next,
+    training: {
+      ...training,
+      fatigue: round(fatigue),
+      injuryWeeks,
+    },
+    injured: injuryWeeks > 0,
+  };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -11,6 +11,26 @@ export function darkenColor(color: number, factor: number): number {
   return (r << 16) | (g << 8) | b;
 }
 
+/**
+ * Blends two colors together
+ * @param color1 - The first color as a hex number
+ * @param color2 - The second color as a hex number
+ * @param amount - How much of the second color to mix in (0-1, where 0 = color1, 1 = color2)
+ * @returns The blended color as a hex number
+ */
+export function blendColors(
+  color1: number,
+  color2: number,
+  amount: number,
+): number {
+  const mix = (shift: number) => {
+    const a = (color1 >> shift) & 0xff;
+    const b = (color2 >> shift) & 0xff;
+    return Math.round(a + (b - a) * amount);
+  };
+  return (mix(16) << 16) | (mix(8) << 8) | mix(0);
+}
+
 /**
  * Gets the complementary color (opposite on color wheel)
  * @param color - The color as a hex number (e.g., 0xff0000)
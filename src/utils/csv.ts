@@ -0,0 +1,14 @@
+/**
+ * Build CSV text from rows of cells, quoting cells that need it
+ */
+export function toCSV(rows: (string | number)[][]): string {
+  return rows.map((row) => row.map(escapeCell).join(",")).join("\n");
+}
+
+function escapeCell(cell: string | number): string {
+  const text = String(cell);
+  if (/[",\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
@@ -0,0 +1,136 @@
+/**
+ * Named sub-streams of a race seed.
+ * Each part of race generation draws from its own stream so adding a random
+ * call in one place never shifts the numbers another place sees.
+ */
+export const RandomStream = {
+  FIELD: "field", // Horse generation (stats, names, colours, accessories)
+  VARIANCE: "variance", // In-race speed variance
+  FINAL_KICK: "final-kick", // Final stretch boost
+  INCIDENTS: "incidents", // In-race incidents
+  GOING: "going", // Track going when not picked in the editor
+  WEATHER: "weather", // Race weather when not picked in the editor
+  ODDS: "odds", // Trial seeds for the odds calculator
+  TOURNAMENT: "tournament", // Tournament draws and race seeds
+  BREEDING: "breeding", // Foal stats, looks and mutations
+  TRAINING: "training", // Weekly training gains and injuries
+  DRAW: "draw", // Starting gate draw
+} as const;
+
+export type RandomStream = (typeof RandomStream)[keyof typeof RandomStream];
+
+/**
+ * Hash a string into four 32-bit seeds (cyrb128)
+ */
+function hashSeed(input: string): [number, number, number, number] {
+  let h1 = 1779033703;
+  let h2 = 3144134277;
+  let h3 = 1013904242;
+  let h4 = 2773480762;
+
+  for (let i = 0; i < input.length; i++) {
+    const k = input.charCodeAt(i);
+    h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+    h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+    h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+    h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
+  }
+
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+
+  return [
+    (h1 ^ h2 ^ h3 ^ h4) >>> 0,
+    (h2 ^ h1) >>> 0,
+    (h3 ^ h1) >>> 0,
+    (h4 ^ h1) >>> 0,
+  ];
+}
+
+/**
+ * 128-bit hash of a string as 32 hex characters, e.g. to fingerprint a race config
+ */
+export function hashString(input: string): string {
+  return hashSeed(input)
+    .map((word) => word.toString(16).padStart(8, "0"))
+    .join("");
+}
+
+/**
+ * Seedable pseudo random number generator (sfc32).
+ * The same seed and stream name always produce the same sequence.
+ */
+export class SeededRandom {
+  private a: number;
+  private b: number;
+  private c: number;
+  private d: number;
+  private readonly seed: number;
+  private readonly stream: string;
+
+  constructor(seed: number, stream: string = "") {
+    this.seed = seed;
+    this.stream = stream;
+    [this.a, this.b, this.c, this.d] = hashSeed(`${seed}:${stream}`);
+
+    // Discard the first few outputs so similar seeds diverge quickly
+    for (let i = 0; i < 12; i++) {
+      this.next();
+    }
+  }
+
+  /**
+   * Next number in the range [0, 1)
+   */
+  public next(): number {
+    this.a >>>= 0;
+    this.b >>>= 0;
+    this.c >>>= 0;
+    this.d >>>= 0;
+    let t = (this.a + this.b) | 0;
+    this.a = this.b ^ (this.b >>> 9);
+    this.b = (this.c + (this.c << 3)) | 0;
+    this.c = (this.c << 21) | (this.c >>> 11);
+    this.d = (this.d + 1) | 0;
+    t = (t + this.d) | 0;
+    this.c = (this.c + t) | 0;
+    return (t >>> 0) / 4294967296;
+  }
+
+  /**
+   * Number in the range [min, max)
+   */
+  public range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Integer in the range [0, maxExclusive)
+   */
+  public int(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+
+  /**
+   * Pick a random item from a non-empty list
+   */
+  public pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)];
+  }
+
+  /**
+   * Create an independent child stream, e.g. one per horse
+   */
+  public fork(name: string | number): SeededRandom {
+    return new SeededRandom(this.seed, `${this.stream}/${name}`);
+  }
+}
+
+/**
+ * Create the random stream for a race seed
+ */
+export function createRandom(seed: number, stream: RandomStream): SeededRandom {
+  return new SeededRandom(seed, stream);
+}
@@ -0,0 +1,86 @@
+import type { Straight } from "./raceSimulation";
+import { createRandom, RandomStream } from "./utils/random";
+
+/**
+ * Race weather.
+ * Rain makes the turns slippery, wind blows into the horses' faces on the back
+ * straight and snowfall slows everyone a little. Fog only limits the view.
+ */
+
+export type Weather = "clear" | "rain" | "snow" | "fog" | "wind";
+
+export const WEATHERS: Weather[] = ["clear", "rain", "snow", "fog", "wind"];
+
+export const DEFAULT_WEATHER: Weather = "clear";
+
+export const WEATHER_LABELS: Record<Weather, string> = {
+  clear: "Clear",
+  rain: "Rain",
+  snow: "Snow",
+  fog: "Fog",
+  wind: "Wind",
+};
+
+// Chance of each weather when drawn from the seed (snow only on the Christmas theme)
+const WEATHER_WEIGHTS: Record<Weather, number> = {
+  clear: 0.5,
+  rain: 0.2,
+  snow: 0.15,
+  fog: 0.1,
+  wind: 0.2,
+};
+
+const HEADWIND_SLOWDOWN = 0.08; // Speed lost running into the wind
+const HEADWIND_ENERGY = 0.15; // Extra energy spent running into the wind
+const SLIPPERY_TURN_SLOWDOWN = 0.06; // Speed lost easing round a wet turn
+const SNOWFALL_SLOWDOWN = 0.02; // Speed lost everywhere in falling snow
+
+export interface WeatherEffect {
+  speedFactor: number; // Multiplier on the horse's speed
+  energyFactor: number; // Multiplier on energy used
+}
+
+/**
+ * Effect of the weather on a horse at one point of the track
+ * @param straight - Straight the horse is on, null on a turn
+ * @param shelter - How much the horse is tucked in behind another (draft strength, 0-1)
+ */
+export function getWeatherEffect(
+  weather: Weather,
+  straight: Straight | null,
+  shelter: number,
+): WeatherEffect {
+  switch (weather) {
+    case "wind": {
+      // Wind blows down the home straight, so the back straight runs into it
+      if (straight !== "back") break;
+      const exposure = 1 - shelter * 0.5;
+      return {
+        speedFactor: 1 - HEADWIND_SLOWDOWN * exposure,
+        energyFactor: 1 + HEADWIND_ENERGY * exposure,
+      };
+    }
+    case "rain":
+      if (straight !== null) break;
+      return { speedFactor: 1 - SLIPPERY_TURN_SLOWDOWN, energyFactor: 1 };
+    case "snow":
+      return { speedFactor: 1 - SNOWFALL_SLOWDOWN, energyFactor: 1 };
+  }
+
+  return { speedFactor: 1, energyFactor: 1 };
+}
+
+/**
+ * Draw the race weather from the seed. Snow is only drawn when allowed (Christmas theme).
+ */
+export function drawWeather(seed: number, allowSnow: boolean): Weather {
+  const options = allowSnow ? WEATHERS : WEATHERS.filter((w) => w !== "snow");
+  const total = options.reduce((sum, w) => sum + WEATHER_WEIGHTS[w], 0);
+
+  let roll = createRandom(seed, RandomStream.WEATHER).next() * total;
+  for (const weather of options) {
+    roll -= WEATHER_WEIGHTS[weather];
+    if (roll < 0) return weather;
+  }
+  return DEFAULT_WEATHER;
+}
@@ -0,0 +1,200 @@
+import * as THREE from "three";
+import { getThemeConfig, type ThemeType } from "./themeConfig";
+import { DEFAULT_WEATHER, type Weather } from "./weather";
+
+interface ParticleSettings {
+  count: number;
+  color: number;
+  size: number;
+  opacity: number;
+  fallSpeed: number; // Units per second downwards
+  driftSpeed: number; // Units per second along +X (the wind blows down the home straight)
+  sway: number; // Side to side wobble (snowflakes)
+}
+
+interface WeatherVisuals {
+  lightIntensity: number; // Directional (sun) light intensity
+  overcast: number; // How far the sky is greyed out (0-1)
+  fog: { near: number; far: number } | null;
+  particles: ParticleSettings | null;
+}
+
+const OVERCAST_COLOR = 0x9aa3ad;
+
+const WEATHER_VISUALS: Record<Weather, WeatherVisuals> = {
+  clear: { lightIntensity: 0.8, overcast: 0, fog: null, particles: null },
+  rain: {
+    lightIntensity: 0.4,
+    overcast: 0.6,
+    fog: { near: 60, far: 260 },
+    particles: {
+      count: 4000,
+      color: 0xaac4dd,
+      size: 0.15,
+      opacity: 0.6,
+      fallSpeed: 40,
+      driftSpeed: 2,
+      sway: 0,
+    },
+  },
+  snow: {
+    lightIntensity: 0.5,
+    overcast: 0.4,
+    fog: { near: 50, far: 240 },
+    particles: {
+      count: 3000,
+      color: 0xffffff,
+      size: 0.35,
+      opacity: 0.9,
+      fallSpeed: 3,
+      driftSpeed: 1,
+      sway: 0.8,
+    },
+  },
+  fog: {
+    lightIntensity: 0.5,
+    overcast: 0.7,
+    fog: { near: 10, far: 90 },
+    particles: null,
+  },
+  wind: {
+    lightIntensity: 0.7,
+    overcast: 0.2,
+    fog: null,
+    particles: {
+      count: 600,
+      color: 0xc8b088,
+      size: 0.25,
+      opacity: 0.7,
+      fallSpeed: 0.5,
+      driftSpeed: 25,
+      sway: 0.5,
+    },
+  },
+};
+
+// Box around the track that particles fall through
+const AREA_WIDTH = 200;
+const AREA_DEPTH = 150;
+const AREA_HEIGHT = 50;
+
+/**
+ * Weather visuals for the main scene: sky, fog, sunlight and falling particles
+ */
+export class WeatherEffects {
+  private scene: THREE.Scene;
+  private sunLight: THREE.DirectionalLight;
+  private theme: ThemeType;
+  private weather: Weather = DEFAULT_WEATHER;
+  private particles: THREE.Points | null = null;
+  private particleSettings: ParticleSettings | null = null;
+  private elapsed: number = 0;
+
+  constructor(
+    scene: THREE.Scene,
+    sunLight: THREE.DirectionalLight,
+    theme: ThemeType,
+  ) {
+    this.scene = scene;
+    this.sunLight = sunLight;
+    this.theme = theme;
+    this.apply();
+  }
+
+  public setWeather(weather: Weather): void {
+    if (weather === this.weather) return;
+    this.weather = weather;
+    this.apply();
+  }
+
+  /**
+   * Sky colour comes from the theme, so reapply it when the theme changes
+   */
+  public setTheme(theme: ThemeType): void {
+    this.theme = theme;
+    this.apply();
+  }
+
+  private apply(): void {
+    const visuals = WEATHER_VISUALS[this.weather];
+
+    // Grey the sky out for overcast weather and fade the distance into it
+    const skyColor = new THREE.Color(getThemeConfig(this.theme).skyColor).lerp(
+      new THREE.Color(OVERCAST_COLOR),
+      visuals.overcast,
+    );
+    this.scene.background = skyColor;
+    this.scene.fog = visuals.fog
+      ? new THREE.Fog(skyColor, visuals.fog.near, visuals.fog.far)
+      : null;
+
+    this.sunLight.intensity = visuals.lightIntensity;
+
+    this.disposeParticles();
+    if (visuals.particles) {
+      this.createParticles(visuals.particles);
+    }
+  }
+
+  private createParticles(settings: ParticleSettings): void {
+    const positions = new Float32Array(settings.count * 3);
+    for (let i = 0; i < settings.count; i++) {
+      positions[i * 3] = (Math.random() - 0.5) * AREA_WIDTH;
+      positions[i * 3 + 1] = Math.random() * AREA_HEIGHT;
+      positions[i * 3 + 2] = (Math.random() - 0.5) * AREA_DEPTH;
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+    const material = new THREE.PointsMaterial({
+      color: settings.color,
+      size: settings.size,
+      transparent: true,
+      opacity: settings.opacity,
+      depthWrite: false,
+    });
+
+    this.particles = new THREE.Points(geometry, material);
+    this.particles.frustumCulled = false; // Particles move outside the initial bounds
+    this.particleSettings = settings;
+    this.scene.add(this.particles);
+  }
+
+  private disposeParticles(): void {
+    if (!this.particles) return;
+    this.scene.remove(this.particles);
+    this.particles.geometry.dispose();
+    (this.particles.material as THREE.Material).dispose();
+    this.particles = null;
+    this.particleSettings = null;
+  }
+
+  /**
+   * Move the particles, wrapping them back round when they leave the area
+   */
+  public update(deltaTime: number): void {
+    if (!this.particles || !this.particleSettings) return;
+    const settings = this.particleSettings;
+    this.elapsed += deltaTime;
+
+    const attribute = this.particles.geometry.getAttribute(
+      "position",
+    ) as THREE.BufferAttribute;
+    const positions = attribute.array as Float32Array;
+
+    for (let i = 0; i < positions.length; i += 3) {
+      const sway = Math.sin(this.elapsed * 1.5 + i) * settings.sway;
+      positions[i] += (settings.driftSpeed + sway) * deltaTime;
+      positions[i + 1] -= settings.fallSpeed * deltaTime;
+
+      if (positions[i + 1] < 0) {
+        positions[i + 1] += AREA_HEIGHT;
+      }
+      if (positions[i] > AREA_WIDTH / 2) {
+        positions[i] -= AREA_WIDTH;
+      }
+    }
+
+    attribute.needsUpdate = true;
+  }
+}